@@ -4,8 +4,22 @@ import { StatusBar } from 'expo-status-bar';
 
 // Navigation
 import AppNavigator from '@/navigation/AppNavigator';
+// Runtime configuration
+import { loadRuntimeConfig } from '@/config';
 
 const App: React.FC = () => {
+  // Services read endpoints from the runtime config, so apply any
+  // developer override before the first screen connects
+  const [isConfigLoaded, setIsConfigLoaded] = React.useState(false);
+
+  React.useEffect(() => {
+    loadRuntimeConfig().finally(() => setIsConfigLoaded(true));
+  }, []);
+
+  if (!isConfigLoaded) {
+    return null;
+  }
+
   return (
     <NavigationContainer>
       <StatusBar style="auto" />
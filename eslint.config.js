@@ -1,10 +1,18 @@
 // https://docs.expo.dev/guides/using-eslint/
 const { defineConfig } = require('eslint/config');
 const expoConfig = require('eslint-config-expo/flat');
+const globals = require('globals');
 
 module.exports = defineConfig([
   expoConfig,
   {
     ignores: ['dist/*'],
   },
+  {
+    // The signaling server and its tests run on Node
+    files: ['signaling-server/**/*.js'],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
 ]);
@@ -0,0 +1,365 @@
+// Type declarations for signalingProtocol.js
+
+export declare const PROTOCOL_VERSION: 1;
+
+export declare const CLIENT_MESSAGES: {
+  readonly REGISTER_USER: 'register-user';
+  readonly RESUME_SESSION: 'resume-session';
+  readonly FIND_MATCH: 'find-match';
+  readonly LEAVE_ROOM: 'leave-room';
+  readonly BLOCK_USER: 'block-user';
+  readonly REPORT_USER: 'report-user';
+  readonly OFFER: 'offer';
+  readonly ANSWER: 'answer';
+  readonly ICE_CANDIDATE: 'ice-candidate';
+  readonly ROOM_PHASE: 'room-phase';
+  readonly GET_STATS: 'get-stats';
+  readonly GET_ICE_SERVERS: 'get-ice-servers';
+  readonly PING: 'ping';
+};
+
+export declare const SERVER_MESSAGES: {
+  readonly CONNECT: 'connect';
+  readonly REGISTRATION_SUCCESS: 'registration-success';
+  readonly SESSION_RESUMED: 'session-resumed';
+  readonly RESUME_FAILED: 'resume-failed';
+  readonly SEARCH_STARTED: 'search-started';
+  readonly NO_MATCH: 'no-match';
+  readonly MATCH_FOUND: 'match-found';
+  readonly USER_LEFT: 'user-left';
+  readonly OFFER: 'offer';
+  readonly ANSWER: 'answer';
+  readonly ICE_CANDIDATE: 'ice-candidate';
+  readonly ROOM_ERROR: 'room-error';
+  readonly REPORT_RECEIVED: 'report-received';
+  readonly SERVER_STATS: 'server-stats';
+  readonly ICE_SERVERS: 'ice-servers';
+  readonly ACK: 'ack';
+  readonly PONG: 'pong';
+  readonly PROTOCOL_ERROR: 'protocol-error';
+  readonly RATE_LIMITED: 'rate-limited';
+  readonly MAINTENANCE_NOTICE: 'maintenance-notice';
+  readonly SERVER_DRAINING: 'server-draining';
+  readonly ROOM_DISSOLVED: 'room-dissolved';
+};
+
+export declare const RELAYED_MESSAGES: readonly ('offer' | 'answer' | 'ice-candidate')[];
+
+export declare const ERROR_CODES: {
+  readonly UNSUPPORTED_VERSION: 'unsupported-version';
+  readonly INVALID_MESSAGE: 'invalid-message';
+  readonly UNKNOWN_TYPE: 'unknown-type';
+  readonly NOT_REGISTERED: 'not-registered';
+  readonly BANNED: 'banned';
+  readonly UNAUTHORIZED: 'unauthorized';
+  readonly RATE_LIMITED: 'rate-limited';
+  readonly MATCHMAKING_DISABLED: 'matchmaking-disabled';
+  readonly SERVER_DRAINING: 'server-draining';
+};
+
+export type ErrorCode = (typeof ERROR_CODES)[keyof typeof ERROR_CODES];
+
+export declare const CLOSE_CODES: {
+  readonly SERVER_SHUTDOWN: 1001;
+  readonly UNSUPPORTED_VERSION: 4000;
+  readonly SESSION_REPLACED: 4001;
+  readonly HEARTBEAT_TIMEOUT: 4002;
+  readonly BANNED: 4003;
+  readonly UNAUTHORIZED: 4004;
+  readonly KICKED: 4005;
+};
+
+export type RoomPhase = 'matched' | 'negotiating' | 'connected' | 'ended';
+
+export declare const ROOM_PHASES: readonly RoomPhase[];
+
+export declare const MAX_MESSAGE_BYTES: number;
+
+export type ReportReason = 'nudity' | 'harassment' | 'spam' | 'underage' | 'other';
+
+export declare const REPORT_REASONS: readonly ReportReason[];
+export declare const MAX_REPORT_DETAILS_LENGTH: number;
+export declare const MAX_INTERESTS: number;
+export declare const MAX_INTEREST_LENGTH: number;
+
+export interface UserPreferences {
+  videoEnabled: boolean;
+  audioEnabled: boolean;
+  location?: string;
+  language?: string;
+  interests?: string[];
+}
+
+export interface UserSession {
+  userId: string;
+  roomId?: string;
+  isReady: boolean;
+  preferences?: UserPreferences;
+}
+
+// Client -> server payloads
+export interface RegisterUserPayload {
+  // Signed session token from the auth API. The server takes the userId from
+  // the token and ignores `userSession.userId`.
+  token: string;
+  userSession: UserSession;
+}
+
+export interface ResumeSessionPayload {
+  resumeToken: string;
+}
+
+export interface FindMatchPayload {
+  preferences?: UserPreferences;
+}
+
+export interface LeaveRoomPayload {
+  roomId: string;
+}
+
+// Block the partner in the given room; they are never matched with us again
+export interface BlockUserPayload {
+  roomId: string;
+}
+
+// Report the partner in the given room to moderation
+export interface ReportUserPayload {
+  roomId: string;
+  reason: ReportReason;
+  details?: string;
+}
+
+export interface OfferPayload {
+  offer: RTCSessionDescriptionInit;
+  to: string;
+}
+
+export interface AnswerPayload {
+  answer: RTCSessionDescriptionInit;
+  to: string;
+}
+
+export interface IceCandidatePayload {
+  candidate: RTCIceCandidateInit;
+  to: string;
+}
+
+// Progress of the call in a room, reported by its members
+export interface RoomPhasePayload {
+  roomId: string;
+  phase: 'negotiating' | 'connected';
+}
+
+export interface ClientMessageMap {
+  'register-user': RegisterUserPayload;
+  'resume-session': ResumeSessionPayload;
+  'find-match': FindMatchPayload;
+  'leave-room': LeaveRoomPayload;
+  'block-user': BlockUserPayload;
+  'report-user': ReportUserPayload;
+  'offer': OfferPayload;
+  'answer': AnswerPayload;
+  'ice-candidate': IceCandidatePayload;
+  'room-phase': RoomPhasePayload;
+  'get-stats': Record<string, never>;
+  'get-ice-servers': Record<string, never>;
+  'ping': HeartbeatPayload;
+}
+
+// Sent as `ping` and echoed back as `pong` to measure round-trip time
+export interface HeartbeatPayload {
+  // Client clock, epoch ms
+  sentAt: number;
+}
+
+// Server -> client payloads
+export interface ConnectPayload {
+  sid: string;
+}
+
+export interface RegistrationSuccessPayload {
+  socketId: string;
+  // The userId bound from the session token
+  userId: string;
+  message: string;
+  // Presented with `resume-session` to reclaim this session after a socket drop
+  resumeToken: string;
+}
+
+export interface SessionResumedPayload {
+  socketId: string;
+  // Replaces the token that was just used
+  resumeToken: string;
+  // The room the session is still in, if any
+  roomId?: string;
+  peerId?: string;
+}
+
+export interface SearchStartedPayload {
+  message: string;
+  isSearching: boolean;
+}
+
+// Why the matchmaker paired two users
+export interface MatchReason {
+  score: number;
+  sharedInterests: string[];
+  sameLanguage: boolean;
+  sameRegion: boolean;
+}
+
+export interface MatchFoundPayload {
+  roomId: string;
+  peerId: string;
+  partner: {
+    userId: string;
+    preferences?: UserPreferences;
+  };
+  reason?: MatchReason;
+}
+
+// Relayed peer messages carry the sender's socket id
+export interface RelayedPayload {
+  from: string;
+}
+
+export interface RoomErrorPayload {
+  code?: ErrorCode;
+  message: string;
+  // Set with the `banned` code
+  bannedUntil?: string;
+  // Set with the `matchmaking-disabled` code: when to try find-match again
+  retryAfterMs?: number;
+}
+
+export interface ReportReceivedPayload {
+  reportId: string;
+}
+
+export interface ProtocolErrorPayload {
+  code: ErrorCode;
+  message: string;
+}
+
+export interface ServerStatsPayload {
+  activeUsers: number;
+  waitingUsers: number;
+  activeRooms: number;
+  timestamp: string;
+}
+
+// TURN servers with time-limited credentials issued by the server
+export interface IceServersPayload {
+  iceServers: {
+    urls: string | string[];
+    username?: string;
+    credential?: string;
+  }[];
+  // Epoch ms after which the credentials no longer work
+  expiresAt: number;
+}
+
+// A message was refused because the client sent too many of its type
+export interface RateLimitedPayload {
+  type: ClientMessageType;
+  // When the same message will be accepted again
+  retryAfterMs: number;
+  message: string;
+}
+
+// Operator announcement shown to every user, e.g. upcoming maintenance
+export interface MaintenanceNoticePayload {
+  // null withdraws the current notice
+  message: string | null;
+  // Epoch ms after which the notice is no longer relevant
+  expiresAt?: number;
+}
+
+// The server is shutting down. Clients outside a room should reconnect, which
+// lands them on another node; rooms may finish until `deadline`.
+export interface ServerDrainingPayload {
+  message: string;
+  // Epoch ms at which the server closes the remaining connections
+  deadline: number;
+  // How long to wait before reconnecting
+  retryAfterMs: number;
+  // Signaling endpoint to reconnect to instead of the configured one
+  reconnectUrl?: string;
+}
+
+// The server ended a room whose call never connected
+export interface RoomDissolvedPayload {
+  roomId: string;
+  reason: 'negotiation-timeout';
+  // The server already put the user back in the waiting queue
+  requeued: boolean;
+}
+
+// Answer to a client envelope that carried a correlation id
+export interface AckPayload {
+  id: string;
+  ok: boolean;
+  // Set when `ok` is false
+  code?: ErrorCode;
+  message?: string;
+}
+
+export interface ServerMessageMap {
+  'connect': ConnectPayload;
+  'registration-success': RegistrationSuccessPayload;
+  'session-resumed': SessionResumedPayload;
+  'resume-failed': { message: string };
+  'search-started': SearchStartedPayload;
+  'no-match': { message: string };
+  'match-found': MatchFoundPayload;
+  'user-left': RelayedPayload;
+  'offer': OfferPayload & RelayedPayload;
+  'answer': AnswerPayload & RelayedPayload;
+  'ice-candidate': IceCandidatePayload & RelayedPayload;
+  'room-error': RoomErrorPayload;
+  'report-received': ReportReceivedPayload;
+  'server-stats': ServerStatsPayload;
+  'ice-servers': IceServersPayload;
+  'ack': AckPayload;
+  'pong': HeartbeatPayload;
+  'protocol-error': ProtocolErrorPayload;
+  'rate-limited': RateLimitedPayload;
+  'maintenance-notice': MaintenanceNoticePayload;
+  'server-draining': ServerDrainingPayload;
+  'room-dissolved': RoomDissolvedPayload;
+}
+
+export type ClientMessageType = keyof ClientMessageMap;
+export type ServerMessageType = keyof ServerMessageMap;
+
+export interface Envelope<T extends string, D> {
+  v: number;
+  type: T;
+  data: D;
+  // Correlation id of a client request, answered with an `ack`
+  id?: string;
+}
+
+export type ClientEnvelope = {
+  [K in ClientMessageType]: Envelope<K, ClientMessageMap[K]>;
+}[ClientMessageType];
+
+export type ServerEnvelope = {
+  [K in ServerMessageType]: Envelope<K, ServerMessageMap[K]>;
+}[ServerMessageType];
+
+export type ParseResult =
+  | { ok: true; envelope: ClientEnvelope }
+  | { ok: false; id?: string; code: ErrorCode; message: string };
+
+export declare function createEnvelope<K extends ClientMessageType>(
+  type: K,
+  data: ClientMessageMap[K],
+  id?: string
+): Envelope<K, ClientMessageMap[K]>;
+export declare function createEnvelope<K extends ServerMessageType>(
+  type: K,
+  data: ServerMessageMap[K]
+): Envelope<K, ServerMessageMap[K]>;
+
+export declare function parseClientEnvelope(raw: unknown): ParseResult;
@@ -0,0 +1,259 @@
+// Shared signaling protocol used by the app (SignalingService) and the
+// signaling server. Every frame on the wire is an envelope of the form
+// { v, type, data } regardless of the underlying transport. Client envelopes
+// may also carry a correlation `id`, which the server answers with an `ack`.
+
+const PROTOCOL_VERSION = 1;
+
+// Messages the client sends to the server
+const CLIENT_MESSAGES = {
+  REGISTER_USER: 'register-user',
+  RESUME_SESSION: 'resume-session',
+  FIND_MATCH: 'find-match',
+  LEAVE_ROOM: 'leave-room',
+  BLOCK_USER: 'block-user',
+  REPORT_USER: 'report-user',
+  OFFER: 'offer',
+  ANSWER: 'answer',
+  ICE_CANDIDATE: 'ice-candidate',
+  ROOM_PHASE: 'room-phase',
+  GET_STATS: 'get-stats',
+  GET_ICE_SERVERS: 'get-ice-servers',
+  PING: 'ping',
+};
+
+// Messages the server sends to the client
+const SERVER_MESSAGES = {
+  CONNECT: 'connect',
+  REGISTRATION_SUCCESS: 'registration-success',
+  SESSION_RESUMED: 'session-resumed',
+  RESUME_FAILED: 'resume-failed',
+  SEARCH_STARTED: 'search-started',
+  NO_MATCH: 'no-match',
+  MATCH_FOUND: 'match-found',
+  USER_LEFT: 'user-left',
+  OFFER: 'offer',
+  ANSWER: 'answer',
+  ICE_CANDIDATE: 'ice-candidate',
+  ROOM_ERROR: 'room-error',
+  REPORT_RECEIVED: 'report-received',
+  SERVER_STATS: 'server-stats',
+  ICE_SERVERS: 'ice-servers',
+  ACK: 'ack',
+  PONG: 'pong',
+  PROTOCOL_ERROR: 'protocol-error',
+  RATE_LIMITED: 'rate-limited',
+  MAINTENANCE_NOTICE: 'maintenance-notice',
+  SERVER_DRAINING: 'server-draining',
+  ROOM_DISSOLVED: 'room-dissolved',
+};
+
+// Peer-to-peer messages the server relays to the other user in the room
+const RELAYED_MESSAGES = [
+  CLIENT_MESSAGES.OFFER,
+  CLIENT_MESSAGES.ANSWER,
+  CLIENT_MESSAGES.ICE_CANDIDATE,
+];
+
+const ERROR_CODES = {
+  UNSUPPORTED_VERSION: 'unsupported-version',
+  INVALID_MESSAGE: 'invalid-message',
+  UNKNOWN_TYPE: 'unknown-type',
+  NOT_REGISTERED: 'not-registered',
+  BANNED: 'banned',
+  UNAUTHORIZED: 'unauthorized',
+  RATE_LIMITED: 'rate-limited',
+  MATCHMAKING_DISABLED: 'matchmaking-disabled',
+  SERVER_DRAINING: 'server-draining',
+};
+
+// WebSocket close codes the server uses. Clients reconnect after
+// SERVER_SHUTDOWN and HEARTBEAT_TIMEOUT, and after UNAUTHORIZED once they have
+// a new token. The others are final: clients must not reconnect after them.
+const CLOSE_CODES = {
+  // Standard "going away": the server shut down; reconnect, ideally to another node
+  SERVER_SHUTDOWN: 1001,
+  UNSUPPORTED_VERSION: 4000,
+  // The session was resumed on another connection
+  SESSION_REPLACED: 4001,
+  // No heartbeat within the timeout; the client should reconnect
+  HEARTBEAT_TIMEOUT: 4002,
+  BANNED: 4003,
+  // Missing or invalid session token; the client should fetch a new one
+  UNAUTHORIZED: 4004,
+  // Disconnected by an operator
+  KICKED: 4005,
+};
+
+// Lifecycle of a room, in order. The server sets `matched` and `ended`;
+// members report `negotiating` and `connected` as their call progresses.
+const ROOM_PHASES = ['matched', 'negotiating', 'connected', 'ended'];
+const REPORTED_ROOM_PHASES = ['negotiating', 'connected'];
+
+// Largest frame either side may send; the server drops connections that exceed it
+const MAX_MESSAGE_BYTES = 64 * 1024;
+
+// Categories a user can pick when reporting a partner
+const REPORT_REASONS = ['nudity', 'harassment', 'spam', 'underage', 'other'];
+const MAX_REPORT_DETAILS_LENGTH = 500;
+
+// Limits on the interests a user can match on
+const MAX_INTERESTS = 20;
+const MAX_INTEREST_LENGTH = 50;
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value) => typeof value === 'string' && value.length > 0;
+
+// Matching preferences are scored against other users', so every field the
+// matchmaker reads must have the right shape
+function preferencesError(preferences, field) {
+  if (!isObject(preferences)) return `${field} must be an object`;
+
+  const { interests, language, location } = preferences;
+  if (interests !== undefined) {
+    if (!Array.isArray(interests) || interests.length > MAX_INTERESTS) {
+      return `${field}.interests must be an array of at most ${MAX_INTERESTS} strings`;
+    }
+    if (!interests.every((interest) => typeof interest === 'string' && interest.length <= MAX_INTEREST_LENGTH)) {
+      return `${field}.interests must be strings of at most ${MAX_INTEREST_LENGTH} characters`;
+    }
+  }
+  if (language !== undefined && typeof language !== 'string') return `${field}.language must be a string`;
+  if (location !== undefined && typeof location !== 'string') return `${field}.location must be a string`;
+  return null;
+}
+
+// Payload validators for client messages. Each returns an error string or null.
+const payloadValidators = {
+  [CLIENT_MESSAGES.REGISTER_USER]: (data) => {
+    if (!isString(data.token)) return 'token must be a non-empty string';
+    if (!isObject(data.userSession)) return 'userSession is required';
+    if (data.userSession.preferences !== undefined) {
+      return preferencesError(data.userSession.preferences, 'userSession.preferences');
+    }
+    return null;
+  },
+  [CLIENT_MESSAGES.RESUME_SESSION]: (data) => {
+    if (!isString(data.resumeToken)) return 'resumeToken must be a non-empty string';
+    return null;
+  },
+  [CLIENT_MESSAGES.FIND_MATCH]: (data) => {
+    if (data.preferences !== undefined) return preferencesError(data.preferences, 'preferences');
+    return null;
+  },
+  [CLIENT_MESSAGES.LEAVE_ROOM]: (data) => {
+    if (!isString(data.roomId)) return 'roomId must be a non-empty string';
+    return null;
+  },
+  [CLIENT_MESSAGES.BLOCK_USER]: (data) => {
+    if (!isString(data.roomId)) return 'roomId must be a non-empty string';
+    return null;
+  },
+  [CLIENT_MESSAGES.REPORT_USER]: (data) => {
+    if (!isString(data.roomId)) return 'roomId must be a non-empty string';
+    if (!REPORT_REASONS.includes(data.reason)) return `reason must be one of ${REPORT_REASONS.join(', ')}`;
+    if (data.details !== undefined && typeof data.details !== 'string') return 'details must be a string';
+    if (data.details && data.details.length > MAX_REPORT_DETAILS_LENGTH) {
+      return `details must be at most ${MAX_REPORT_DETAILS_LENGTH} characters`;
+    }
+    return null;
+  },
+  [CLIENT_MESSAGES.OFFER]: (data) => {
+    if (!isObject(data.offer) || !isString(data.offer.sdp)) return 'offer.sdp is required';
+    return null;
+  },
+  [CLIENT_MESSAGES.ANSWER]: (data) => {
+    if (!isObject(data.answer) || !isString(data.answer.sdp)) return 'answer.sdp is required';
+    return null;
+  },
+  [CLIENT_MESSAGES.ICE_CANDIDATE]: (data) => {
+    if (!isObject(data.candidate)) return 'candidate is required';
+    return null;
+  },
+  [CLIENT_MESSAGES.ROOM_PHASE]: (data) => {
+    if (!isString(data.roomId)) return 'roomId must be a non-empty string';
+    if (!REPORTED_ROOM_PHASES.includes(data.phase)) return `phase must be one of ${REPORTED_ROOM_PHASES.join(', ')}`;
+    return null;
+  },
+  [CLIENT_MESSAGES.GET_STATS]: () => null,
+  [CLIENT_MESSAGES.GET_ICE_SERVERS]: () => null,
+  [CLIENT_MESSAGES.PING]: (data) => {
+    if (typeof data.sentAt !== 'number') return 'sentAt must be a number';
+    return null;
+  },
+};
+
+function createEnvelope(type, data, id) {
+  const envelope = { v: PROTOCOL_VERSION, type, data: data === undefined ? {} : data };
+  if (id !== undefined) {
+    envelope.id = id;
+  }
+  return envelope;
+}
+
+// Parse and validate an envelope received from a client. Accepts either the
+// raw JSON string (WebSocket) or an already decoded object (Socket.IO).
+function parseClientEnvelope(raw) {
+  let envelope = raw;
+
+  if (typeof raw === 'string') {
+    try {
+      envelope = JSON.parse(raw);
+    } catch {
+      return { ok: false, code: ERROR_CODES.INVALID_MESSAGE, message: 'Message is not valid JSON' };
+    }
+  }
+
+  if (!isObject(envelope) || !isString(envelope.type)) {
+    return { ok: false, code: ERROR_CODES.INVALID_MESSAGE, message: 'Message must be an object with a type' };
+  }
+
+  // Failures after this point can still be correlated with the request
+  const id = isString(envelope.id) ? envelope.id : undefined;
+  if (envelope.id !== undefined && !id) {
+    return { ok: false, code: ERROR_CODES.INVALID_MESSAGE, message: 'id must be a non-empty string' };
+  }
+
+  if (envelope.v !== PROTOCOL_VERSION) {
+    return {
+      ok: false,
+      id,
+      code: ERROR_CODES.UNSUPPORTED_VERSION,
+      message: `Unsupported protocol version ${envelope.v}, server speaks version ${PROTOCOL_VERSION}`,
+    };
+  }
+
+  const validate = payloadValidators[envelope.type];
+  if (!validate) {
+    return { ok: false, id, code: ERROR_CODES.UNKNOWN_TYPE, message: `Unknown message type: ${envelope.type}` };
+  }
+
+  const data = envelope.data === undefined ? {} : envelope.data;
+  if (!isObject(data)) {
+    return { ok: false, id, code: ERROR_CODES.INVALID_MESSAGE, message: `${envelope.type}: data must be an object` };
+  }
+
+  const error = validate(data);
+  if (error) {
+    return { ok: false, id, code: ERROR_CODES.INVALID_MESSAGE, message: `${envelope.type}: ${error}` };
+  }
+
+  return { ok: true, envelope: createEnvelope(envelope.type, data, id) };
+}
+
+module.exports = {
+  PROTOCOL_VERSION,
+  CLIENT_MESSAGES,
+  SERVER_MESSAGES,
+  RELAYED_MESSAGES,
+  ERROR_CODES,
+  CLOSE_CODES,
+  ROOM_PHASES,
+  MAX_MESSAGE_BYTES,
+  REPORT_REASONS,
+  MAX_REPORT_DETAILS_LENGTH,
+  MAX_INTERESTS,
+  MAX_INTEREST_LENGTH,
+  createEnvelope,
+  parseClientEnvelope,
+};
@@ -0,0 +1,143 @@
+// Admin HTTP API. Every route requires `Authorization: Bearer <ADMIN_TOKEN>`;
+// when no token is configured the API is disabled entirely.
+//
+// Queue, room and socket routes act on the node that receives the request;
+// bans, notices and the matchmaking switch apply to the whole cluster.
+
+const crypto = require('crypto');
+const express = require('express');
+
+// Hash both sides so timingSafeEqual gets equal lengths and the comparison
+// leaks neither the token nor its length
+const digest = (value) => crypto.createHash('sha256').update(value).digest();
+
+function requireAdmin(adminToken) {
+  const expected = adminToken ? digest(`Bearer ${adminToken}`) : null;
+
+  return (req, res, next) => {
+    if (!expected) {
+      res.status(503).json({ error: 'Admin API disabled' });
+      return;
+    }
+
+    if (!crypto.timingSafeEqual(digest(req.get('authorization') || ''), expected)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    next();
+  };
+}
+
+function createAdminRouter({ adminToken, moderation, operations }) {
+  const router = express.Router();
+  router.use(requireAdmin(adminToken));
+
+  // List reports, optionally for a single reported user
+  router.get('/reports', (req, res) => {
+    const reports = moderation.listReports({ userId: req.query.userId });
+    res.json({ reports, count: reports.length });
+  });
+
+  router.get('/bans', (req, res) => {
+    const bans = moderation.listBans();
+    res.json({ bans, count: bans.length });
+  });
+
+  // Lift a ban before it expires
+  router.delete('/bans/:userId', (req, res) => {
+    if (!operations.liftBan(req.params.userId)) {
+      res.status(404).json({ error: 'No active ban for this user' });
+      return;
+    }
+    res.json({ userId: req.params.userId, lifted: true });
+  });
+
+  // Users waiting for a match, with how long they have waited
+  router.get('/queue', (req, res) => {
+    const waiting = operations.listWaiting();
+    res.json({ waiting, count: waiting.length });
+  });
+
+  // Active rooms, with their age
+  router.get('/rooms', (req, res) => {
+    const rooms = operations.listRooms();
+    res.json({ rooms, count: rooms.length });
+  });
+
+  // End a room; both users are told their partner left
+  router.delete('/rooms/:roomId', (req, res) => {
+    if (!operations.endRoom(req.params.roomId)) {
+      res.status(404).json({ error: 'No such room on this node' });
+      return;
+    }
+    res.json({ roomId: req.params.roomId, ended: true });
+  });
+
+  // Disconnect a socket without letting it resume its session
+  router.post('/sockets/:socketId/kick', (req, res) => {
+    if (!operations.kick(req.params.socketId)) {
+      res.status(404).json({ error: 'No such socket on this node' });
+      return;
+    }
+    res.json({ socketId: req.params.socketId, kicked: true });
+  });
+
+  // Ban the user behind a socket. Body: { reason?, durationMs? }
+  router.post('/sockets/:socketId/ban', (req, res) => {
+    const { reason, durationMs } = req.body || {};
+    if (durationMs !== undefined && !(Number.isFinite(durationMs) && durationMs > 0)) {
+      res.status(400).json({ error: 'durationMs must be a positive number' });
+      return;
+    }
+
+    const ban = operations.ban(req.params.socketId, { reason, durationMs });
+    if (!ban) {
+      res.status(404).json({ error: 'No registered user for this socket on this node' });
+      return;
+    }
+    res.json({ ban });
+  });
+
+  // Show a maintenance banner to every user. Body: { message, expiresAt? }
+  router.post('/notice', (req, res) => {
+    const { message, expiresAt } = req.body || {};
+    if (typeof message !== 'string' || message.length === 0) {
+      res.status(400).json({ error: 'message must be a non-empty string' });
+      return;
+    }
+    if (expiresAt !== undefined && !Number.isFinite(expiresAt)) {
+      res.status(400).json({ error: 'expiresAt must be epoch milliseconds' });
+      return;
+    }
+
+    const notice = { message, expiresAt };
+    operations.setNotice(notice);
+    res.json({ notice });
+  });
+
+  router.delete('/notice', (req, res) => {
+    operations.setNotice(null);
+    res.json({ notice: null });
+  });
+
+  router.get('/matchmaking', (req, res) => {
+    res.json({ enabled: operations.isMatchmakingEnabled() });
+  });
+
+  // Pause or resume matchmaking. Body: { enabled }
+  router.put('/matchmaking', (req, res) => {
+    const { enabled } = req.body || {};
+    if (typeof enabled !== 'boolean') {
+      res.status(400).json({ error: 'enabled must be a boolean' });
+      return;
+    }
+
+    operations.setMatchmakingEnabled(enabled);
+    res.json({ enabled });
+  });
+
+  return router;
+}
+
+module.exports = { createAdminRouter };
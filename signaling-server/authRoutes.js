@@ -0,0 +1,35 @@
+// Auth HTTP API used by the app's ApiService. Responses use the app's
+// `{ success, message, data }` envelope.
+
+const express = require('express');
+const { logger: rootLogger } = require('./logger');
+
+function bearerToken(req) {
+  const header = req.get('authorization') || '';
+  return header.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+}
+
+function createAuthRouter({ sessionTokens, logger = rootLogger }) {
+  const router = express.Router();
+
+  // Anonymous device token with a new userId
+  router.post('/anonymous', (req, res) => {
+    const session = sessionTokens.issueAnonymous();
+    logger.info('Issued anonymous token', { userId: session.userId });
+    res.json({ success: true, message: 'Token issued', data: session });
+  });
+
+  // Extend a still valid token, keeping its userId
+  router.post('/refresh', (req, res) => {
+    const session = sessionTokens.refresh(bearerToken(req));
+    if (!session) {
+      res.status(401).json({ success: false, message: 'Invalid or expired token', data: null });
+      return;
+    }
+    res.json({ success: true, message: 'Token refreshed', data: session });
+  });
+
+  return router;
+}
+
+module.exports = { createAuthRouter };
@@ -0,0 +1,289 @@
+// Message broker connecting signaling nodes.
+//
+// A broker offers plain pub/sub: `publish(channel, message)` delivers the
+// JSON-serialisable message to every subscriber of the channel, on any node.
+// Delivery is asynchronous and fire-and-forget, like Redis PUBLISH.
+//
+// `createLocalBroker` keeps everything in process; several nodes sharing one
+// instance behave like a cluster. `createRedisBroker` speaks RESP to any
+// Redis-compatible server (Redis, Valkey, KeyDB, ...) over two connections,
+// one for publishing and one for subscriptions. Both reconnect on their own
+// when the server goes away; messages published to a node while its
+// subscriber is disconnected are lost, as with any Redis pub/sub.
+
+const net = require('net');
+const { logger: rootLogger } = require('./logger');
+
+function createLocalBroker() {
+  const subscribers = new Map(); // channel -> Set<handler>
+
+  return {
+    publish(channel, message) {
+      const payload = JSON.stringify(message);
+      for (const handler of subscribers.get(channel) || []) {
+        // Copy per subscriber, as if it had crossed the network
+        setImmediate(() => handler(JSON.parse(payload)));
+      }
+    },
+
+    subscribe(channel, handler) {
+      if (!subscribers.has(channel)) {
+        subscribers.set(channel, new Set());
+      }
+      subscribers.get(channel).add(handler);
+      return () => subscribers.get(channel)?.delete(handler);
+    },
+
+    close() {
+      subscribers.clear();
+    },
+  };
+}
+
+// Encode a command as a RESP array of bulk strings
+function encodeCommand(args) {
+  let out = `*${args.length}\r\n`;
+  for (const arg of args) {
+    out += `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`;
+  }
+  return out;
+}
+
+// Parse one RESP value from `buffer` at `offset`. Returns { value, offset }
+// or null when the buffer does not hold a complete value yet.
+function parseResp(buffer, offset = 0) {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const prefix = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (prefix) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new Error(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      const items = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseResp(buffer, cursor);
+        if (!item) return null;
+        items.push(item.value);
+        cursor = item.offset;
+      }
+      return { value: items, offset: cursor };
+    }
+    default:
+      throw new Error(`Unexpected RESP prefix "${prefix}"`);
+  }
+}
+
+// Reconnect delays after a dropped connection: doubling, up to the maximum
+const RECONNECT_BASE_DELAY = 100;
+const RECONNECT_MAX_DELAY = 10000;
+// Commands kept while disconnected; the oldest are dropped beyond this
+const MAX_QUEUED_COMMANDS = 1000;
+
+// RESP connection that survives server restarts. Writes commands and hands
+// every reply or push message to `onValue`. After a drop it reconnects with
+// backoff and calls `onConnect` before sending the commands queued in the
+// meantime, so callers can restore connection state such as subscriptions.
+// A reply that cannot be parsed resets the connection.
+function openRespConnection(url, { name, onValue, onConnect = () => {}, logger }) {
+  const { hostname, port, password } = new URL(url);
+  const queued = [];
+  let socket = null;
+  let connected = false;
+  let closed = false;
+  let attempts = 0;
+  let reconnectTimer = null;
+
+  function connect() {
+    let pending = Buffer.alloc(0);
+    socket = net.connect(Number(port) || 6379, hostname || '127.0.0.1');
+
+    socket.on('connect', () => {
+      connected = true;
+      if (attempts > 0) {
+        logger.info('Broker connection restored', { connection: name, attempts });
+      }
+      attempts = 0;
+
+      if (password) {
+        socket.write(encodeCommand(['AUTH', decodeURIComponent(password)]));
+      }
+      onConnect();
+      for (const command of queued.splice(0)) {
+        socket.write(command);
+      }
+    });
+
+    socket.on('data', (chunk) => {
+      pending = Buffer.concat([pending, chunk]);
+      for (;;) {
+        let parsed;
+        try {
+          parsed = parseResp(pending);
+        } catch (error) {
+          // The stream is out of sync; only a fresh connection recovers it
+          logger.error('Broker protocol error, reconnecting', { connection: name, error });
+          socket.destroy();
+          return;
+        }
+        if (!parsed) return;
+
+        pending = pending.subarray(parsed.offset);
+        onValue(parsed.value);
+      }
+    });
+
+    socket.on('error', (error) => logger.error('Broker connection error', { connection: name, error }));
+
+    socket.on('close', () => {
+      connected = false;
+      if (closed) return;
+
+      const delayMs = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** attempts);
+      attempts++;
+      logger.warn('Broker connection lost, reconnecting', { connection: name, delayMs });
+      reconnectTimer = setTimeout(connect, delayMs);
+    });
+  }
+
+  connect();
+
+  return {
+    isConnected: () => connected,
+
+    send(...args) {
+      const command = encodeCommand(args);
+      if (connected) {
+        socket.write(command);
+        return;
+      }
+
+      queued.push(command);
+      if (queued.length > MAX_QUEUED_COMMANDS) {
+        queued.shift();
+      }
+    },
+
+    close() {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket.end();
+    },
+  };
+}
+
+function createRedisBroker({ url = 'redis://127.0.0.1:6379', logger = rootLogger } = {}) {
+  const handlers = new Map(); // channel -> Set<handler>
+  // Publishes wait until our own subscriptions are in place, so replies to
+  // them cannot arrive before we listen
+  let subscribed = false;
+  const held = []; // [channel, payload]
+
+  const publisher = openRespConnection(url, {
+    name: 'publisher',
+    logger,
+    onValue(reply) {
+      if (reply instanceof Error) {
+        logger.error('Broker error', { error: reply });
+      }
+    },
+  });
+
+  const subscriber = openRespConnection(url, {
+    name: 'subscriber',
+    logger,
+    // Subscriptions die with the connection; restore all of them
+    onConnect() {
+      if (handlers.size > 0) {
+        subscriber.send('SUBSCRIBE', ...handlers.keys());
+      }
+      if (!subscribed) {
+        subscribed = true;
+        for (const [channel, payload] of held.splice(0)) {
+          publisher.send('PUBLISH', channel, payload);
+        }
+      }
+    },
+    onValue(reply) {
+      // Pushes look like ['message', channel, payload]
+      if (!Array.isArray(reply) || reply[0] !== 'message') return;
+
+      let message;
+      try {
+        message = JSON.parse(reply[2]);
+      } catch {
+        logger.error('Dropping malformed broker message', { channel: reply[1] });
+        return;
+      }
+      for (const handler of handlers.get(reply[1]) || []) {
+        handler(message);
+      }
+    },
+  });
+
+  return {
+    publish(channel, message) {
+      const payload = JSON.stringify(message);
+      if (subscribed) {
+        publisher.send('PUBLISH', channel, payload);
+      } else {
+        held.push([channel, payload]);
+      }
+    },
+
+    subscribe(channel, handler) {
+      if (!handlers.has(channel)) {
+        handlers.set(channel, new Set());
+        // Otherwise the channel is subscribed on connect
+        if (subscriber.isConnected()) {
+          subscriber.send('SUBSCRIBE', channel);
+        }
+      }
+      handlers.get(channel).add(handler);
+
+      return () => {
+        const channelHandlers = handlers.get(channel);
+        channelHandlers?.delete(handler);
+        if (channelHandlers && channelHandlers.size === 0) {
+          handlers.delete(channel);
+          if (subscriber.isConnected()) {
+            subscriber.send('UNSUBSCRIBE', channel);
+          }
+        }
+      };
+    },
+
+    close() {
+      handlers.clear();
+      publisher.close();
+      subscriber.close();
+    },
+  };
+}
+
+// Redis-backed broker when a URL is given, in-process otherwise
+function createBroker({ redisUrl, logger } = {}) {
+  return redisUrl ? createRedisBroker({ url: redisUrl, logger }) : createLocalBroker();
+}
+
+module.exports = {
+  createBroker,
+  createLocalBroker,
+  createRedisBroker,
+  parseResp,
+};
@@ -0,0 +1,42 @@
+// Structured logging.
+//
+// Every entry is one JSON line on stdout: { time, level, msg, ...fields }.
+// Correlation ids (socketId, roomId, userId, nodeId) are passed as fields, and
+// `child(fields)` returns a logger that adds them to each of its entries.
+// Entries below LOG_LEVEL (default "info") are dropped.
+
+const LEVELS = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Errors do not serialise to JSON on their own
+function serialiseField(value) {
+  return value instanceof Error ? { message: value.message, stack: value.stack } : value;
+}
+
+function createLogger({ level = 'info', base = {}, write = (line) => process.stdout.write(`${line}\n`), now = Date.now } = {}) {
+  const threshold = LEVELS[level] ?? LEVELS.info;
+
+  function log(entryLevel, msg, fields = {}) {
+    if (LEVELS[entryLevel] < threshold) return;
+
+    const entry = { time: new Date(now()).toISOString(), level: entryLevel, msg, ...base };
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined) {
+        entry[key] = serialiseField(value);
+      }
+    }
+    write(JSON.stringify(entry));
+  }
+
+  return {
+    debug: (msg, fields) => log('debug', msg, fields),
+    info: (msg, fields) => log('info', msg, fields),
+    warn: (msg, fields) => log('warn', msg, fields),
+    error: (msg, fields) => log('error', msg, fields),
+    child: (fields) => createLogger({ level, base: { ...base, ...fields }, write, now }),
+  };
+}
+
+// Process-wide logger for modules that are not handed one
+const logger = createLogger({ level: process.env.LOG_LEVEL });
+
+module.exports = { createLogger, logger, LEVELS };
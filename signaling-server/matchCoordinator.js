@@ -0,0 +1,142 @@
+// Cluster-wide matchmaking over the broker.
+//
+// Exactly one node runs the coordinator. Every node (including the
+// coordinator's own) publishes queue changes on MATCHMAKING_CHANNEL; the
+// coordinator owns the matchmaker and the partner history, and announces each
+// match on the node channels of both users. Socket ids are prefixed with the
+// id of the node holding the socket, so a match can be routed without a
+// directory of sockets.
+//
+// A pair counts as recent partners only once the nodes of both users confirm
+// that they were still waiting and got the room. A node that finds one of them
+// gone abandons the room instead, so the other can meet them again later.
+//
+// The coordinator keeps its queue in memory. Nodes keep their own waiting
+// users too, and hand them over again whenever a coordinator announces
+// itself, so a restarted coordinator picks up where the old one stopped.
+// While none runs, users stay queued on their nodes without being matched.
+// Recent partners and blocks are not recovered after a restart.
+
+const { v4: uuidv4 } = require('uuid');
+const { createMatchmaker } = require('./matchmaker');
+const { createPartnerHistory } = require('./partnerHistory');
+
+const MATCHMAKING_CHANNEL = 'signaling:matchmaking';
+// Operator actions every node applies, such as maintenance notices
+const BROADCAST_CHANNEL = 'signaling:broadcast';
+
+// Rooms not confirmed or abandoned within this long are forgotten, e.g. when
+// a node went away in between
+const PENDING_ROOM_TTL = 60 * 1000;
+
+const nodeChannel = (nodeId) => `signaling:node:${nodeId}`;
+const nodeOf = (socketId) => socketId.split(':')[0];
+const createSocketId = (nodeId, localId) => `${nodeId}:${localId}`;
+
+function createMatchCoordinator({ broker, now = Date.now }) {
+  const waiting = new Map(); // socketId -> { userId, preferences }
+  const partnerHistory = createPartnerHistory({ now });
+  // roomId -> { userIds, confirmed: Set<socketId>, announcedAt }
+  const pendingRooms = new Map();
+  const matchmaker = createMatchmaker({
+    now,
+    // Never pair users who just met or who blocked each other
+    canMatch: (socketA, socketB) => {
+      const userA = waiting.get(socketA);
+      const userB = waiting.get(socketB);
+      return !!userA && !!userB && partnerHistory.canMatch(userA.userId, userB.userId);
+    },
+  });
+
+  // Tell the nodes of both users about their new room
+  function announce(firstId, secondId, reason) {
+    const first = { socketId: firstId, ...waiting.get(firstId) };
+    const second = { socketId: secondId, ...waiting.get(secondId) };
+    waiting.delete(firstId);
+    waiting.delete(secondId);
+
+    const roomId = uuidv4();
+    pendingRooms.set(roomId, { userIds: [first.userId, second.userId], confirmed: new Set(), announcedAt: now() });
+    const match = { kind: 'matched', roomId, reason, users: [first, second] };
+    for (const nodeId of new Set([nodeOf(firstId), nodeOf(secondId)])) {
+      broker.publish(nodeChannel(nodeId), match);
+    }
+  }
+
+  const handlers = {
+    enqueue({ socketId, userId, preferences }) {
+      waiting.set(socketId, { userId, preferences });
+      matchmaker.enqueue(socketId, preferences);
+
+      const match = matchmaker.findMatchFor(socketId);
+      if (match) {
+        announce(match.partnerId, socketId, match.reason);
+      }
+    },
+
+    dequeue({ socketId }) {
+      waiting.delete(socketId);
+      matchmaker.remove(socketId);
+    },
+
+    block({ blockerId, blockedId }) {
+      partnerHistory.block(blockerId, blockedId);
+    },
+
+    // A node created the room for its users in it
+    confirm({ roomId, socketIds }) {
+      const room = pendingRooms.get(roomId);
+      if (!room) return;
+
+      socketIds.forEach((socketId) => room.confirmed.add(socketId));
+      if (room.confirmed.size === 2) {
+        pendingRooms.delete(roomId);
+        partnerHistory.recordMatch(...room.userIds);
+      }
+    },
+
+    // A node found one of the users gone before the room was created
+    abandon({ roomId }) {
+      pendingRooms.delete(roomId);
+    },
+  };
+
+  const unsubscribe = broker.subscribe(MATCHMAKING_CHANNEL, (message) => {
+    handlers[message.kind]?.(message);
+  });
+
+  return {
+    // Pair up waiting users whose criteria have widened enough to match
+    sweep() {
+      for (const { first, second, reason } of matchmaker.matchWaiting()) {
+        announce(first, second, reason);
+      }
+    },
+
+    // Drop expired recent-partner entries and forgotten rooms
+    prune() {
+      partnerHistory.prune();
+      const at = now();
+      for (const [roomId, { announcedAt }] of pendingRooms) {
+        if (at - announcedAt >= PENDING_ROOM_TTL) pendingRooms.delete(roomId);
+      }
+    },
+
+    size() {
+      return matchmaker.size();
+    },
+
+    close() {
+      unsubscribe();
+    },
+  };
+}
+
+module.exports = {
+  createMatchCoordinator,
+  createSocketId,
+  nodeChannel,
+  nodeOf,
+  MATCHMAKING_CHANNEL,
+  BROADCAST_CHANNEL,
+};
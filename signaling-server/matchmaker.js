@@ -0,0 +1,168 @@
+// Interest- and language-aware matchmaking for the waiting queue.
+//
+// Every waiting user is scored against every other by shared interests,
+// language and region. The score a pair needs to be matched drops the longer
+// either of them has been waiting, so nobody waits forever for a perfect
+// partner. The clock is injectable so the engine can be driven
+// deterministically from tests, and `canMatch` lets the caller veto pairs
+// (recent partners, blocks) before they are scored. The queue itself can be
+// supplied by the caller's state store.
+
+const SCORE_WEIGHTS = {
+  sharedInterest: 3,
+  sameLanguage: 2,
+  sameRegion: 1,
+};
+
+// Minimum score required once the longer-waiting user of a pair has waited
+// at least `after` milliseconds. Must be sorted by `after` ascending.
+const DEFAULT_TIERS = [
+  { after: 0, minScore: 3 },
+  { after: 10000, minScore: 2 },
+  { after: 20000, minScore: 0 },
+];
+
+const normalize = (value) => (typeof value === 'string' ? value.trim().toLowerCase() : '');
+// Preferences come from clients; anything but an array counts as no interests
+const interestsOf = (preferences) => (Array.isArray(preferences.interests) ? preferences.interests : []);
+
+// Score a pair of preference objects and describe why they fit together
+function scorePair(a = {}, b = {}) {
+  const interestsB = new Set(interestsOf(b).map(normalize));
+  const sharedInterests = interestsOf(a).filter(
+    (interest) => normalize(interest) && interestsB.has(normalize(interest))
+  );
+  const sameLanguage = !!normalize(a.language) && normalize(a.language) === normalize(b.language);
+  const sameRegion = !!normalize(a.location) && normalize(a.location) === normalize(b.location);
+
+  const score =
+    sharedInterests.length * SCORE_WEIGHTS.sharedInterest +
+    (sameLanguage ? SCORE_WEIGHTS.sameLanguage : 0) +
+    (sameRegion ? SCORE_WEIGHTS.sameRegion : 0);
+
+  return { score, sharedInterests, sameLanguage, sameRegion };
+}
+
+// Highest score a pair could reach given what both of them declared. A pair
+// is never held to a bar it cannot possibly clear.
+function potentialScore(a = {}, b = {}) {
+  const interests = Math.min(interestsOf(a).length, interestsOf(b).length);
+  return (
+    interests * SCORE_WEIGHTS.sharedInterest +
+    (normalize(a.language) && normalize(b.language) ? SCORE_WEIGHTS.sameLanguage : 0) +
+    (normalize(a.location) && normalize(b.location) ? SCORE_WEIGHTS.sameRegion : 0)
+  );
+}
+
+function requiredScore(tiers, waitedMs) {
+  let minScore = tiers[0].minScore;
+  for (const tier of tiers) {
+    if (waitedMs >= tier.after) {
+      minScore = tier.minScore;
+    }
+  }
+  return minScore;
+}
+
+function createMatchmaker({
+  now = Date.now,
+  tiers = DEFAULT_TIERS,
+  canMatch = () => true,
+  queue = new Map(), // socketId -> { socketId, preferences, enqueuedAt }
+} = {}) {
+  // Evaluate a candidate pair, returning the match reason or null
+  function evaluate(entry, candidate, at) {
+    const reason = scorePair(entry.preferences, candidate.preferences);
+    const waitedMs = at - Math.min(entry.enqueuedAt, candidate.enqueuedAt);
+    const required = Math.min(
+      requiredScore(tiers, waitedMs),
+      potentialScore(entry.preferences, candidate.preferences)
+    );
+    return reason.score >= required ? reason : null;
+  }
+
+  // Best partner for an entry: highest score, then longest waiting
+  function bestCandidateFor(entry, at) {
+    let best = null;
+    for (const candidate of queue.values()) {
+      if (candidate.socketId === entry.socketId) continue;
+      if (!canMatch(entry.socketId, candidate.socketId)) continue;
+
+      const reason = evaluate(entry, candidate, at);
+      if (!reason) continue;
+
+      if (
+        !best ||
+        reason.score > best.reason.score ||
+        (reason.score === best.reason.score && candidate.enqueuedAt < best.candidate.enqueuedAt)
+      ) {
+        best = { candidate, reason };
+      }
+    }
+    return best;
+  }
+
+  return {
+    enqueue(socketId, preferences = {}) {
+      if (!queue.has(socketId)) {
+        queue.set(socketId, { socketId, preferences, enqueuedAt: now() });
+      }
+    },
+
+    remove(socketId) {
+      return queue.delete(socketId);
+    },
+
+    has(socketId) {
+      return queue.has(socketId);
+    },
+
+    size() {
+      return queue.size;
+    },
+
+    entries() {
+      return Array.from(queue.values());
+    },
+
+    // Try to match a single queued user. Both users leave the queue on success.
+    findMatchFor(socketId) {
+      const entry = queue.get(socketId);
+      if (!entry) return null;
+
+      const best = bestCandidateFor(entry, now());
+      if (!best) return null;
+
+      queue.delete(entry.socketId);
+      queue.delete(best.candidate.socketId);
+      return { partnerId: best.candidate.socketId, reason: best.reason };
+    },
+
+    // Re-run matching over the whole queue, oldest first, as criteria widen
+    matchWaiting() {
+      const at = now();
+      const pairs = [];
+      const byAge = Array.from(queue.values()).sort((a, b) => a.enqueuedAt - b.enqueuedAt);
+
+      for (const entry of byAge) {
+        if (!queue.has(entry.socketId)) continue;
+
+        const best = bestCandidateFor(entry, at);
+        if (!best) continue;
+
+        queue.delete(entry.socketId);
+        queue.delete(best.candidate.socketId);
+        pairs.push({ first: entry.socketId, second: best.candidate.socketId, reason: best.reason });
+      }
+
+      return pairs;
+    },
+  };
+}
+
+module.exports = {
+  createMatchmaker,
+  scorePair,
+  DEFAULT_TIERS,
+  SCORE_WEIGHTS,
+};
@@ -0,0 +1,119 @@
+// Prometheus metrics in the text exposition format.
+//
+// `createMetrics()` returns a registry of counters, gauges and histograms;
+// `render()` produces the body served on /metrics. Gauges can take a
+// `collect` function that is read at scrape time, so values such as the queue
+// length are sampled on every scrape instead of being pushed.
+
+// Histogram buckets in seconds, from a quick match to a long conversation
+const DEFAULT_BUCKETS = [0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600, 1800];
+
+const escapeLabel = (value) => String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+function formatLabels(labels) {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+// Series are keyed by their label values in `labelNames` order
+function labelKey(labelNames, labels = {}) {
+  return JSON.stringify(labelNames.map((name) => String(labels[name] ?? '')));
+}
+
+function labelsFromKey(labelNames, key) {
+  const values = JSON.parse(key);
+  return Object.fromEntries(labelNames.map((name, i) => [name, values[i]]));
+}
+
+function createCounter({ name, help, labelNames = [] }) {
+  const values = new Map();
+
+  return {
+    inc(labels, amount = 1) {
+      const key = labelKey(labelNames, labels);
+      values.set(key, (values.get(key) || 0) + amount);
+    },
+
+    render() {
+      const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} counter`];
+      if (labelNames.length === 0 && values.size === 0) {
+        lines.push(`${name} 0`);
+      }
+      for (const [key, value] of values) {
+        lines.push(`${name}${formatLabels(labelsFromKey(labelNames, key))} ${value}`);
+      }
+      return lines;
+    },
+  };
+}
+
+function createGauge({ name, help, collect }) {
+  let value = 0;
+
+  return {
+    set(next) {
+      value = next;
+    },
+
+    render() {
+      return [`# HELP ${name} ${help}`, `# TYPE ${name} gauge`, `${name} ${collect ? collect() : value}`];
+    },
+  };
+}
+
+function createHistogram({ name, help, buckets = DEFAULT_BUCKETS }) {
+  const counts = buckets.map(() => 0);
+  let sum = 0;
+  let count = 0;
+
+  return {
+    observe(value) {
+      buckets.forEach((bound, i) => {
+        if (value <= bound) counts[i]++;
+      });
+      sum += value;
+      count++;
+    },
+
+    render() {
+      const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} histogram`];
+      buckets.forEach((bound, i) => {
+        lines.push(`${name}_bucket{le="${bound}"} ${counts[i]}`);
+      });
+      lines.push(`${name}_bucket{le="+Inf"} ${count}`);
+      lines.push(`${name}_sum ${sum}`);
+      lines.push(`${name}_count ${count}`);
+      return lines;
+    },
+  };
+}
+
+function createMetrics() {
+  const registered = new Map(); // name -> metric
+
+  function register(name, metric) {
+    if (registered.has(name)) {
+      throw new Error(`Metric ${name} is already registered`);
+    }
+    registered.set(name, metric);
+    return metric;
+  }
+
+  return {
+    counter: (options) => register(options.name, createCounter(options)),
+    gauge: (options) => register(options.name, createGauge(options)),
+    histogram: (options) => register(options.name, createHistogram(options)),
+
+    render() {
+      const lines = [];
+      for (const metric of registered.values()) {
+        lines.push(...metric.render());
+      }
+      return `${lines.join('\n')}\n`;
+    },
+  };
+}
+
+const CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+module.exports = { createMetrics, CONTENT_TYPE, DEFAULT_BUCKETS };
@@ -0,0 +1,133 @@
+// Abuse reports and bans, keyed by userId.
+//
+// A user is banned automatically once `banThreshold` distinct users have
+// reported them within `reportWindowMs`. Bans are temporary and expire after
+// `banDurationMs` unless lifted earlier through the admin API, where operators
+// can also ban users by hand. Reports and bans live in the state store, so a
+// persistent store keeps them across restarts. `prune` drops reports older
+// than `reportRetentionMs` and expired bans so the store stays bounded. In a
+// cluster every node keeps its own copy; `importReport` and `importBan` take
+// in what other nodes made.
+
+const { v4: uuidv4 } = require('uuid');
+const { createMemoryStore } = require('./stateStore');
+
+const DEFAULT_BAN_THRESHOLD = 3;
+const DEFAULT_REPORT_WINDOW = 24 * 60 * 60 * 1000;
+const DEFAULT_BAN_DURATION = 24 * 60 * 60 * 1000;
+// Kept longer than the report window so operators can still review them
+const DEFAULT_REPORT_RETENTION = 7 * 24 * 60 * 60 * 1000;
+
+function createModeration({
+  store = createMemoryStore(),
+  now = Date.now,
+  banThreshold = DEFAULT_BAN_THRESHOLD,
+  reportWindowMs = DEFAULT_REPORT_WINDOW,
+  banDurationMs = DEFAULT_BAN_DURATION,
+  reportRetentionMs = DEFAULT_REPORT_RETENTION,
+} = {}) {
+  function distinctRecentReporters(userId, at) {
+    const reporters = new Set();
+    for (const report of store.listReports({ userId })) {
+      if (at - report.createdAt < reportWindowMs) {
+        reporters.add(report.reporterId);
+      }
+    }
+    return reporters.size;
+  }
+
+  // Bans are { userId, reason, bannedAt, expiresAt }
+  function getBan(userId) {
+    const ban = store.getBan(userId);
+    if (!ban) return null;
+
+    if (now() >= ban.expiresAt) {
+      store.deleteBan(userId);
+      return null;
+    }
+    return ban;
+  }
+
+  function banUser({ userId, reason, durationMs = banDurationMs }) {
+    const at = now();
+    const ban = { userId, reason, bannedAt: at, expiresAt: at + durationMs };
+    store.setBan(ban);
+    return ban;
+  }
+
+  return {
+    // Record a report. Returns the report and the ban it triggered, if any.
+    addReport({ reporterId, reportedId, reason, details, roomId }) {
+      const at = now();
+      const report = {
+        id: uuidv4(),
+        reporterId,
+        reportedId,
+        reason,
+        details,
+        roomId,
+        createdAt: at,
+      };
+      store.addReport(report);
+
+      let ban = null;
+      if (!getBan(reportedId) && distinctRecentReporters(reportedId, at) >= banThreshold) {
+        ban = banUser({ userId: reportedId, reason: 'report-threshold' });
+      }
+
+      return { report, ban };
+    },
+
+    // Ban a user by hand, replacing any current ban
+    ban: banUser,
+
+    getBan,
+
+    isBanned(userId) {
+      return !!getBan(userId);
+    },
+
+    liftBan(userId) {
+      return store.deleteBan(userId);
+    },
+
+    // A report made on another node. Reports arrive more than once when
+    // several nodes answer a sync, so known ones are skipped.
+    importReport(report) {
+      if (now() - report.createdAt >= reportRetentionMs) return;
+      if (!store.listReports({ userId: report.reportedId }).some((known) => known.id === report.id)) {
+        store.addReport(report);
+      }
+    },
+
+    // A ban issued on another node
+    importBan(ban) {
+      if (now() < ban.expiresAt) {
+        store.setBan(ban);
+      }
+    },
+
+    listReports({ userId } = {}) {
+      return store.listReports({ userId });
+    },
+
+    listBans() {
+      return store.listBans()
+        .map((ban) => getBan(ban.userId))
+        .filter(Boolean);
+    },
+
+    // Forget old reports and expired bans
+    prune() {
+      store.deleteReportsBefore(now() - reportRetentionMs);
+      store.listBans().forEach((ban) => getBan(ban.userId));
+    },
+  };
+}
+
+module.exports = {
+  createModeration,
+  DEFAULT_BAN_THRESHOLD,
+  DEFAULT_BAN_DURATION,
+  DEFAULT_REPORT_RETENTION,
+};
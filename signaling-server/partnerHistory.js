@@ -0,0 +1,96 @@
+// Per-user memory of recent partners and blocked users, keyed by userId so it
+// survives reconnects with a new socket id.
+//
+// Recent partners are bounded both in count and in age: a user remembers at
+// most `maxRecent` partners, each for `recentTtlMs`. Blocks are mutual and
+// permanent for the lifetime of the store.
+
+const DEFAULT_MAX_RECENT = 50;
+const DEFAULT_RECENT_TTL = 5 * 60 * 1000;
+
+function createPartnerHistory({
+  now = Date.now,
+  maxRecent = DEFAULT_MAX_RECENT,
+  recentTtlMs = DEFAULT_RECENT_TTL,
+} = {}) {
+  const recent = new Map(); // userId -> Map<partnerId, lastMatchedAt>, oldest first
+  const blocked = new Map(); // userId -> Set<userId>
+
+  function remember(userId, partnerId, at) {
+    let partners = recent.get(userId);
+    if (!partners) {
+      partners = new Map();
+      recent.set(userId, partners);
+    }
+
+    // Re-insert so the map stays ordered by last match time
+    partners.delete(partnerId);
+    partners.set(partnerId, at);
+
+    while (partners.size > maxRecent) {
+      partners.delete(partners.keys().next().value);
+    }
+  }
+
+  function wasRecent(userId, partnerId) {
+    const partners = recent.get(userId);
+    const matchedAt = partners?.get(partnerId);
+    if (matchedAt === undefined) return false;
+
+    if (now() - matchedAt >= recentTtlMs) {
+      partners.delete(partnerId);
+      if (partners.size === 0) recent.delete(userId);
+      return false;
+    }
+    return true;
+  }
+
+  function wasRecentPair(userA, userB) {
+    return wasRecent(userA, userB) || wasRecent(userB, userA);
+  }
+
+  function isBlocked(userA, userB) {
+    return !!(blocked.get(userA)?.has(userB) || blocked.get(userB)?.has(userA));
+  }
+
+  return {
+    // Remember that two users were just matched with each other
+    recordMatch(userA, userB) {
+      const at = now();
+      remember(userA, userB, at);
+      remember(userB, userA, at);
+    },
+
+    block(userId, blockedUserId) {
+      if (!blocked.has(userId)) {
+        blocked.set(userId, new Set());
+      }
+      blocked.get(userId).add(blockedUserId);
+    },
+
+    isBlocked,
+
+    wasRecent: wasRecentPair,
+
+    canMatch(userA, userB) {
+      return userA !== userB && !isBlocked(userA, userB) && !wasRecentPair(userA, userB);
+    },
+
+    // Drop expired recent-partner entries
+    prune() {
+      const at = now();
+      for (const [userId, partners] of recent) {
+        for (const [partnerId, matchedAt] of partners) {
+          if (at - matchedAt >= recentTtlMs) partners.delete(partnerId);
+        }
+        if (partners.size === 0) recent.delete(userId);
+      }
+    },
+  };
+}
+
+module.exports = {
+  createPartnerHistory,
+  DEFAULT_MAX_RECENT,
+  DEFAULT_RECENT_TTL,
+};
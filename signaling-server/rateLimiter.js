@@ -0,0 +1,100 @@
+// Token-bucket rate limits per message type.
+//
+// Each (key, message type) pair has its own bucket holding up to `capacity`
+// tokens and refilling at `refillPerSec`. Keys are opaque to the limiter; the
+// server uses one per socket and one per client IP, with looser limits for
+// the IP so several users behind one NAT are not throttled together.
+
+// Per-socket limits. Relayed WebRTC messages get generous buckets since a
+// single negotiation can produce dozens of ICE candidates.
+const DEFAULT_LIMITS = {
+  'register-user': { capacity: 3, refillPerSec: 0.2 },
+  'resume-session': { capacity: 3, refillPerSec: 0.2 },
+  'find-match': { capacity: 5, refillPerSec: 0.5 },
+  'leave-room': { capacity: 10, refillPerSec: 1 },
+  'block-user': { capacity: 5, refillPerSec: 0.1 },
+  'report-user': { capacity: 5, refillPerSec: 0.1 },
+  'offer': { capacity: 10, refillPerSec: 2 },
+  'answer': { capacity: 10, refillPerSec: 2 },
+  'ice-candidate': { capacity: 100, refillPerSec: 20 },
+  'room-phase': { capacity: 5, refillPerSec: 1 },
+  'get-stats': { capacity: 2, refillPerSec: 0.2 },
+  'get-ice-servers': { capacity: 3, refillPerSec: 0.1 },
+  'ping': { capacity: 5, refillPerSec: 1 },
+};
+
+// Bucket for message types without an explicit limit
+const FALLBACK_LIMIT = { capacity: 20, refillPerSec: 5 };
+
+// Scale a set of limits, e.g. for per-IP buckets
+function scaleLimits(limits, factor) {
+  const scaled = {};
+  for (const [type, { capacity, refillPerSec }] of Object.entries(limits)) {
+    scaled[type] = { capacity: capacity * factor, refillPerSec: refillPerSec * factor };
+  }
+  return scaled;
+}
+
+function createRateLimiter({ now = Date.now, limits = DEFAULT_LIMITS } = {}) {
+  const buckets = new Map(); // key -> Map(type -> { tokens, updatedAt })
+
+  function limitFor(type) {
+    return limits[type] || FALLBACK_LIMIT;
+  }
+
+  return {
+    // Take a token for a message. Returns { ok: true } or, when the bucket is
+    // empty, { ok: false, retryAfterMs } with the time until the next token.
+    consume(key, type) {
+      const { capacity, refillPerSec } = limitFor(type);
+      const at = now();
+
+      let byType = buckets.get(key);
+      if (!byType) {
+        byType = new Map();
+        buckets.set(key, byType);
+      }
+
+      const bucket = byType.get(type) || { tokens: capacity, updatedAt: at };
+      bucket.tokens = Math.min(capacity, bucket.tokens + ((at - bucket.updatedAt) / 1000) * refillPerSec);
+      bucket.updatedAt = at;
+      byType.set(type, bucket);
+
+      if (bucket.tokens < 1) {
+        return { ok: false, retryAfterMs: Math.ceil(((1 - bucket.tokens) / refillPerSec) * 1000) };
+      }
+
+      bucket.tokens -= 1;
+      return { ok: true };
+    },
+
+    forget(key) {
+      buckets.delete(key);
+    },
+
+    // Drop keys whose buckets have all refilled, so idle clients cost nothing
+    prune() {
+      const at = now();
+      for (const [key, byType] of buckets) {
+        const idle = Array.from(byType.entries()).every(([type, bucket]) => {
+          const { capacity, refillPerSec } = limitFor(type);
+          return bucket.tokens + ((at - bucket.updatedAt) / 1000) * refillPerSec >= capacity;
+        });
+        if (idle) {
+          buckets.delete(key);
+        }
+      }
+    },
+
+    size() {
+      return buckets.size;
+    },
+  };
+}
+
+module.exports = {
+  createRateLimiter,
+  scaleLimits,
+  DEFAULT_LIMITS,
+  FALLBACK_LIMIT,
+};
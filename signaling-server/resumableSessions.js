@@ -0,0 +1,76 @@
+// Resume tokens that let a client whose socket dropped reclaim its session
+// (socket id, registration and room) on a new connection.
+//
+// Every registered session holds one token. When its connection closes the
+// session is suspended for `graceMs`; resuming within that window cancels the
+// expiry, otherwise `onExpire` is called so the caller can clean up as for a
+// normal disconnect. Tokens are single use and rotate on every resume.
+
+const { v4: uuidv4 } = require('uuid');
+
+const DEFAULT_GRACE_PERIOD = 30 * 1000;
+
+function createResumableSessions({
+  graceMs = DEFAULT_GRACE_PERIOD,
+  onExpire = () => {},
+  setTimer = setTimeout,
+  clearTimer = clearTimeout,
+} = {}) {
+  const tokens = new Map(); // resumeToken -> socketId
+  const sessions = new Map(); // socketId -> { token, timer }
+
+  function forget(socketId) {
+    const session = sessions.get(socketId);
+    if (!session) return;
+
+    if (session.timer) clearTimer(session.timer);
+    tokens.delete(session.token);
+    sessions.delete(socketId);
+  }
+
+  return {
+    // Issue a fresh token for a session, invalidating any previous one
+    issue(socketId) {
+      forget(socketId);
+      const token = uuidv4();
+      tokens.set(token, socketId);
+      sessions.set(socketId, { token, timer: null });
+      return token;
+    },
+
+    // Keep a session alive after its connection closed. Returns false for
+    // sessions that never registered and so cannot be resumed.
+    suspend(socketId) {
+      const session = sessions.get(socketId);
+      if (!session) return false;
+
+      if (session.timer) clearTimer(session.timer);
+      session.timer = setTimer(() => {
+        forget(socketId);
+        onExpire(socketId);
+      }, graceMs);
+      return true;
+    },
+
+    // Claim a session by token. Returns its socket id, or null if the token
+    // is unknown or its grace period already ran out.
+    resume(token) {
+      const socketId = tokens.get(token);
+      if (!socketId) return null;
+
+      forget(socketId);
+      return socketId;
+    },
+
+    isSuspended(socketId) {
+      return !!sessions.get(socketId)?.timer;
+    },
+
+    forget,
+  };
+}
+
+module.exports = {
+  createResumableSessions,
+  DEFAULT_GRACE_PERIOD,
+};
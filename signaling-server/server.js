@@ -1,8 +1,42 @@
 const express = require('express');
 const http = require('http');
 const socketIo = require('socket.io');
+const { WebSocketServer } = require('ws');
 const cors = require('cors');
+const crypto = require('crypto');
 const { v4: uuidv4 } = require('uuid');
+const {
+  CLIENT_MESSAGES,
+  SERVER_MESSAGES,
+  RELAYED_MESSAGES,
+  ERROR_CODES,
+  CLOSE_CODES,
+  ROOM_PHASES,
+  MAX_MESSAGE_BYTES,
+  PROTOCOL_VERSION,
+  createEnvelope,
+  parseClientEnvelope,
+} = require('../shared/signalingProtocol');
+const { createModeration } = require('./moderation');
+const { createAdminRouter } = require('./adminRoutes');
+const { createTurnCredentials } = require('./turnCredentials');
+const { createResumableSessions } = require('./resumableSessions');
+const { createSessionTokens } = require('./sessionTokens');
+const { createAuthRouter } = require('./authRoutes');
+const { createRateLimiter, scaleLimits, DEFAULT_LIMITS } = require('./rateLimiter');
+const { createSkipThrottle } = require('./skipThrottle');
+const { createStateStore } = require('./stateStore');
+const { createBroker } = require('./broker');
+const {
+  createMatchCoordinator,
+  createSocketId,
+  nodeChannel,
+  nodeOf,
+  MATCHMAKING_CHANNEL,
+  BROADCAST_CHANNEL,
+} = require('./matchCoordinator');
+const { logger } = require('./logger');
+const { createMetrics, CONTENT_TYPE } = require('./metrics');
 
 const app = express();
 const server = http.createServer(app);
@@ -13,260 +47,1180 @@ const io = socketIo(server, {
     origin: "*",
     methods: ["GET", "POST"],
     credentials: true
+  },
+  maxHttpBufferSize: MAX_MESSAGE_BYTES
+});
+
+// Raw WebSocket endpoint used by the mobile app. Upgrades are routed by hand
+// so that Socket.IO keeps handling its own /socket.io/ path.
+// Oversized frames close the connection with 1009.
+const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+const WS_PATH = '/ws';
+
+server.on('upgrade', (req, socket, head) => {
+  const { pathname } = new URL(req.url, 'http://localhost');
+  if (pathname !== WS_PATH) {
+    return;
   }
+
+  wss.handleUpgrade(req, socket, head, (ws) => {
+    wss.emit('connection', ws, req);
+  });
 });
 
 app.use(cors());
 app.use(express.json());
 
-// Simple health check endpoint
+// Health check. Fails while draining so load balancers stop sending clients here.
 app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  res.status(drainDeadline ? 503 : 200).json({
+    status: drainDeadline ? 'draining' : 'ok',
+    timestamp: new Date().toISOString()
+  });
 });
 
-// Store active users and rooms
-const activeUsers = new Map(); // socketId -> userInfo
-const waitingUsers = new Set(); // users waiting for match
-const activeRooms = new Map(); // roomId -> { user1, user2 }
+// Users, waiting queue, rooms, reports and bans of this node. With STATE_FILE
+// set, reports and bans are saved to that file and survive restarts.
+const store = createStateStore({ filePath: process.env.STATE_FILE });
+const clients = new Map(); // socketId -> connection
 
-console.log('🚀 OmeTV Signaling Server Starting...');
+// Multi-node mode: with REDIS_URL set, nodes share a Redis-compatible broker and
+// users on different nodes can be matched. Exactly one node must run with
+// MATCH_COORDINATOR=1; a single node without REDIS_URL always coordinates.
+const NODE_ID = process.env.NODE_ID || uuidv4().slice(0, 8);
+// JSON log lines; every entry carries this node's id
+const log = logger.child({ nodeId: NODE_ID });
+const broker = createBroker({ redisUrl: process.env.REDIS_URL, logger: log });
+const coordinator = !process.env.REDIS_URL || process.env.MATCH_COORDINATOR === '1'
+  ? createMatchCoordinator({ broker })
+  : null;
+const moderation = createModeration({ store }); // reports and bans by userId
+// Time-limited TURN credentials (STUN only unless TURN_SECRET and TURN_URLS are set)
+const turnCredentials = createTurnCredentials({
+  secret: process.env.TURN_SECRET,
+  urls: (process.env.TURN_URLS || '').split(',').map((url) => url.trim()).filter(Boolean),
+  ttlSeconds: Number(process.env.TURN_TTL_SECONDS) || undefined
+});
 
-io.on('connection', (socket) => {
-  console.log(`✅ User connected: ${socket.id}`);
-
-  // Register user
-  socket.on('register-user', (userSession) => {
-    console.log(`📝 User registered:`, userSession);
-    
-    activeUsers.set(socket.id, {
-      ...userSession,
-      socketId: socket.id,
-      connectedAt: new Date()
+// Sessions whose socket dropped stay resumable for a grace period
+const sessions = createResumableSessions({
+  graceMs: Number(process.env.RESUME_GRACE_MS) || undefined,
+  onExpire: (socketId) => {
+    log.info('Resume grace period expired', { socketId });
+    removeUser(socketId);
+  }
+});
+
+// Per-socket and per-IP message limits, plus a cooldown for rapid skipping.
+// Several users may share an IP behind NAT, so its buckets are larger.
+const IP_LIMIT_FACTOR = 5;
+const socketLimiter = createRateLimiter();
+const ipLimiter = createRateLimiter({ limits: scaleLimits(DEFAULT_LIMITS, IP_LIMIT_FACTOR) });
+const skipThrottle = createSkipThrottle();
+
+// Signed session tokens. Without AUTH_SECRET a random secret is used, so
+// tokens stop working whenever the server restarts.
+if (!process.env.AUTH_SECRET) {
+  log.warn('AUTH_SECRET is not set, using a random secret for this process');
+}
+const sessionTokens = createSessionTokens({
+  secret: process.env.AUTH_SECRET || crypto.randomBytes(32).toString('hex'),
+  ttlSeconds: Number(process.env.AUTH_TOKEN_TTL_SECONDS) || undefined
+});
+
+app.use('/auth', createAuthRouter({ sessionTokens, logger: log }));
+
+// Admin API for moderation and operations (disabled unless ADMIN_TOKEN is set)
+app.use('/admin', createAdminRouter({
+  adminToken: process.env.ADMIN_TOKEN,
+  moderation,
+  operations: {
+    listWaiting,
+    listRooms,
+    endRoom: forceEndRoom,
+    kick: kickSocket,
+    ban: banSocket,
+    liftBan,
+    setNotice: (notice) => broker.publish(BROADCAST_CHANNEL, { kind: 'notice', notice }),
+    isMatchmakingEnabled: () => matchmakingEnabled,
+    setMatchmakingEnabled: (enabled) => broker.publish(BROADCAST_CHANNEL, { kind: 'matchmaking', enabled }),
+  }
+}));
+
+// Operator switches, set through the admin API of any node and applied by
+// every node. A node started later takes them over from its peers.
+let matchmakingEnabled = true;
+let maintenanceNotice = null; // { message, expiresAt? }
+
+// Set once a shutdown signal arrives: epoch ms when remaining connections are closed
+let drainDeadline = null;
+
+// How often the waiting queue is re-evaluated as match criteria widen
+const MATCH_SWEEP_INTERVAL = 2000;
+// How often expired recent-partner entries are dropped
+const HISTORY_PRUNE_INTERVAL = 60000;
+// Connections silent for longer than this are considered dead (clients ping every 10s)
+const HEARTBEAT_TIMEOUT = 35000;
+const HEARTBEAT_SWEEP_INTERVAL = 5000;
+// Connections must register or resume within this long after connecting
+const AUTH_TIMEOUT = 10000;
+// Users still waiting after this long are told no match was found yet
+const NO_MATCH_NOTICE_AFTER = 30000;
+// Clients refused while matchmaking is off try again after this long
+const MATCHMAKING_RETRY_MS = 30000;
+// Rooms whose call has not connected this long after the match are dissolved
+const NEGOTIATION_TIMEOUT = Number(process.env.NEGOTIATION_TIMEOUT_MS) || 30000;
+// How often rooms are checked for timeouts and orphaned state is dropped
+const ROOM_SWEEP_INTERVAL = 5000;
+// How often idle rate-limit buckets and skip history are dropped
+const LIMITER_PRUNE_INTERVAL = 60000;
+// How often old reports and expired bans are dropped
+const MODERATION_PRUNE_INTERVAL = 60 * 60 * 1000;
+// How long rooms may keep going once the server starts draining
+const DRAIN_TIMEOUT = Number(process.env.DRAIN_TIMEOUT_MS) || 5 * 60 * 1000;
+const DRAIN_CHECK_INTERVAL = 1000;
+// Draining clients wait this long before reconnecting (plus their own jitter)
+const DRAIN_RECONNECT_DELAY = 1000;
+// Exit anyway if open sockets keep the HTTP server from closing
+const SHUTDOWN_GRACE = 5000;
+
+// Metrics served on /metrics. Matches and room durations are counted once
+// per room across the cluster; gauges describe this node only.
+const metrics = createMetrics();
+const registrationsTotal = metrics.counter({
+  name: 'signaling_registrations_total',
+  help: 'Users registered with a valid session token'
+});
+const matchesTotal = metrics.counter({
+  name: 'signaling_matches_total',
+  help: 'Rooms created; rate() of this gives matches per minute'
+});
+const timeToMatch = metrics.histogram({
+  name: 'signaling_time_to_match_seconds',
+  help: 'Time users spent in the waiting queue before being matched'
+});
+const roomDuration = metrics.histogram({
+  name: 'signaling_room_duration_seconds',
+  help: 'Time from match to the room ending'
+});
+const messagesTotal = metrics.counter({
+  name: 'signaling_messages_total',
+  help: 'Valid client messages received, by type',
+  labelNames: ['type']
+});
+const rateLimitedTotal = metrics.counter({
+  name: 'signaling_rate_limited_total',
+  help: 'Client messages refused by rate limits, by type',
+  labelNames: ['type']
+});
+const roomsDissolvedTotal = metrics.counter({
+  name: 'signaling_rooms_dissolved_total',
+  help: 'Rooms ended by the server before their call connected, by reason',
+  labelNames: ['reason']
+});
+const orphansSweptTotal = metrics.counter({
+  name: 'signaling_orphans_swept_total',
+  help: 'Stale users, queue entries and rooms dropped by the orphan sweep, by kind',
+  labelNames: ['kind']
+});
+const disconnectsTotal = metrics.counter({
+  name: 'signaling_disconnects_total',
+  help: 'Closed client connections, by reason',
+  labelNames: ['reason']
+});
+metrics.gauge({
+  name: 'signaling_queue_length',
+  help: 'Users on this node waiting for a match',
+  collect: () => store.queue.size
+});
+metrics.gauge({
+  name: 'signaling_connected_clients',
+  help: 'Open client connections on this node',
+  collect: () => clients.size
+});
+metrics.gauge({
+  name: 'signaling_active_rooms',
+  help: 'Rooms with a member on this node',
+  collect: () => store.roomCount()
+});
+
+// Disconnect reasons by close code; anything else was closed by the client
+const DISCONNECT_REASONS = {
+  [CLOSE_CODES.UNSUPPORTED_VERSION]: 'unsupported-version',
+  [CLOSE_CODES.SESSION_REPLACED]: 'session-replaced',
+  [CLOSE_CODES.HEARTBEAT_TIMEOUT]: 'heartbeat-timeout',
+  [CLOSE_CODES.BANNED]: 'banned',
+  [CLOSE_CODES.UNAUTHORIZED]: 'unauthorized',
+  [CLOSE_CODES.KICKED]: 'kicked',
+  [CLOSE_CODES.SERVER_SHUTDOWN]: 'server-shutdown',
+  1006: 'connection-lost',
+  1009: 'message-too-large',
+};
+
+log.info('Signaling server starting');
+
+// Send a protocol message to a client by socket id, on whichever node it is
+function sendTo(socketId, type, data) {
+  if (nodeOf(socketId) === NODE_ID) {
+    clients.get(socketId)?.send(type, data);
+  } else {
+    toNode(socketId, { kind: 'deliver', socketId, type, data });
+  }
+}
+
+// Publish a cluster message to the node holding a socket
+function toNode(socketId, message) {
+  broker.publish(nodeChannel(nodeOf(socketId)), message);
+}
+
+// Take a local user out of the cluster-wide waiting queue
+function leaveQueue(socketId) {
+  if (store.queue.delete(socketId)) {
+    broker.publish(MATCHMAKING_CHANNEL, { kind: 'dequeue', socketId });
+  }
+}
+
+// Tell a user they are banned
+function sendBanned(connection, ban) {
+  connection.send(SERVER_MESSAGES.ROOM_ERROR, {
+    code: ERROR_CODES.BANNED,
+    message: 'You have been temporarily banned for violating community guidelines',
+    bannedUntil: new Date(ban.expiresAt).toISOString()
+  });
+}
+
+// Tell a client a message was refused for being sent too often. Handlers
+// return the result so the message is acknowledged as failed.
+function rateLimited(connection, type, retryAfterMs, message = `Too many ${type} messages`) {
+  rateLimitedTotal.inc({ type });
+  connection.send(SERVER_MESSAGES.RATE_LIMITED, { type, retryAfterMs, message });
+  return { code: ERROR_CODES.RATE_LIMITED, message };
+}
+
+// Tell a user matchmaking is paused for maintenance
+function sendMatchmakingDisabled(socketId) {
+  sendTo(socketId, SERVER_MESSAGES.ROOM_ERROR, {
+    code: ERROR_CODES.MATCHMAKING_DISABLED,
+    message: 'Matchmaking is paused for maintenance',
+    retryAfterMs: MATCHMAKING_RETRY_MS
+  });
+}
+
+// Tell a client this server is shutting down and where to go instead
+function sendDraining(connection) {
+  connection.send(SERVER_MESSAGES.SERVER_DRAINING, {
+    message: 'Server is shutting down, please reconnect',
+    deadline: drainDeadline,
+    retryAfterMs: DRAIN_RECONNECT_DELAY,
+    reconnectUrl: process.env.DRAIN_RECONNECT_URL || undefined
+  });
+}
+
+// Send the maintenance notice and drain state to a client that just (re)joined
+function sendOperatorState(connection) {
+  if (maintenanceNotice && (!maintenanceNotice.expiresAt || maintenanceNotice.expiresAt > Date.now())) {
+    connection.send(SERVER_MESSAGES.MAINTENANCE_NOTICE, maintenanceNotice);
+  }
+  if (drainDeadline) {
+    sendDraining(connection);
+  }
+}
+
+// Take a token from the socket's and the IP's bucket for this message type
+function checkRateLimit(connection, type) {
+  for (const [limiter, key] of [[socketLimiter, connection.id], [ipLimiter, connection.ip]]) {
+    const result = limiter.consume(key, type);
+    if (!result.ok) {
+      log.warn('Rate limited', { socketId: connection.id, ip: connection.ip, type });
+      return rateLimited(connection, type, result.retryAfterMs);
+    }
+  }
+  return null;
+}
+
+// Refuse a connection that could not prove who it is
+function rejectUnauthorized(connection, message) {
+  log.warn('Unauthorized connection', { socketId: connection.id, reason: message });
+  connection.send(SERVER_MESSAGES.PROTOCOL_ERROR, { code: ERROR_CODES.UNAUTHORIZED, message });
+  connection.close(CLOSE_CODES.UNAUTHORIZED, 'Unauthorized');
+}
+
+// Register user. The userId comes from the signed token, never from the payload.
+function handleRegisterUser(connection, { token, userSession }) {
+  const claims = sessionTokens.verify(token);
+  if (!claims) {
+    rejectUnauthorized(connection, 'Invalid or expired session token');
+    return;
+  }
+
+  const { userId } = claims;
+  const ban = moderation.getBan(userId);
+  if (ban) {
+    log.warn('Banned user tried to register', { socketId: connection.id, userId });
+    sendBanned(connection, ban);
+    // Closing as unauthorized instead would make the client fetch a new identity
+    connection.close(CLOSE_CODES.BANNED, 'Banned');
+    return;
+  }
+
+  log.info('User registered', { socketId: connection.id, userId });
+  registrationsTotal.inc();
+
+  store.setUser(connection.id, {
+    ...userSession,
+    userId,
+    socketId: connection.id,
+    connectedAt: new Date()
+  });
+
+  connection.send(SERVER_MESSAGES.REGISTRATION_SUCCESS, {
+    socketId: connection.id,
+    userId,
+    message: 'User registered successfully',
+    resumeToken: sessions.issue(connection.id)
+  });
+  connection.send(SERVER_MESSAGES.ICE_SERVERS, turnCredentials.issue(userId));
+  sendOperatorState(connection);
+}
+
+// Reattach a dropped session to this connection. The connection takes over
+// the old socket id so the room and the partner's peer id stay valid.
+function handleResumeSession(connection, { resumeToken }) {
+  const socketId = sessions.resume(resumeToken);
+  const user = socketId && store.getUser(socketId);
+  if (!user) {
+    log.info('Resume rejected', { socketId: connection.id });
+    connection.send(SERVER_MESSAGES.RESUME_FAILED, { message: 'Session expired' });
+    return;
+  }
+
+  // The old connection may not have noticed it is dead yet
+  const previous = clients.get(socketId);
+  if (previous && previous !== connection) {
+    previous.close(CLOSE_CODES.SESSION_REPLACED, 'Session resumed elsewhere');
+  }
+
+  clients.delete(connection.id);
+  connection.id = socketId;
+  clients.set(socketId, connection);
+
+  const entry = store.findRoomOf(socketId);
+  log.info('Session resumed', { socketId, roomId: entry?.roomId });
+
+  connection.send(SERVER_MESSAGES.SESSION_RESUMED, {
+    socketId,
+    resumeToken: sessions.issue(socketId),
+    roomId: entry?.roomId,
+    peerId: entry?.peerId
+  });
+  connection.send(SERVER_MESSAGES.ICE_SERVERS, turnCredentials.issue(user.userId));
+  sendOperatorState(connection);
+}
+
+// Issue fresh TURN credentials to a registered user
+function handleGetIceServers(connection) {
+  const user = store.getUser(connection.id);
+  if (!user) {
+    connection.send(SERVER_MESSAGES.ROOM_ERROR, {
+      code: ERROR_CODES.NOT_REGISTERED,
+      message: 'User not registered'
+    });
+    return { code: ERROR_CODES.NOT_REGISTERED, message: 'User not registered' };
+  }
+
+  connection.send(SERVER_MESSAGES.ICE_SERVERS, turnCredentials.issue(user.userId));
+}
+
+// Create the room for a match announced by the coordinator and notify the
+// users on this node. Each node keeps the room for its own members.
+function handleMatched({ roomId, reason, users: [first, second] }) {
+  const local = [first, second].filter((user) => nodeOf(user.socketId) === NODE_ID);
+
+  // A user who stopped waiting in the meantime cannot take the room
+  const gone = local.find((user) => !store.queue.has(user.socketId));
+  if (gone) {
+    log.info('Matched user is no longer waiting, dropping room', { socketId: gone.socketId, roomId });
+    // They never met, so they may be matched with each other again
+    broker.publish(MATCHMAKING_CHANNEL, { kind: 'abandon', roomId });
+    const other = gone === first ? second : first;
+    if (nodeOf(other.socketId) === NODE_ID) {
+      // The coordinator already took them out of its queue; queue them again
+      if (store.queue.delete(other.socketId)) {
+        enqueue(other.socketId);
+      }
+    } else {
+      toNode(other.socketId, { kind: 'room-ended', roomId, socketId: other.socketId, leaverId: gone.socketId });
+    }
+    return;
+  }
+
+  const now = Date.now();
+  for (const user of local) {
+    timeToMatch.observe((now - store.queue.get(user.socketId).enqueuedAt) / 1000);
+    store.queue.delete(user.socketId);
+  }
+  store.createRoom(roomId, {
+    user1: first.socketId,
+    user2: second.socketId,
+    userIds: { [first.socketId]: first.userId, [second.socketId]: second.userId },
+    phase: 'matched',
+    createdAt: new Date()
+  });
+  broker.publish(MATCHMAKING_CHANNEL, { kind: 'confirm', roomId, socketIds: local.map((user) => user.socketId) });
+
+  for (const user of local) {
+    const partner = user === first ? second : first;
+    sendTo(user.socketId, SERVER_MESSAGES.MATCH_FOUND, {
+      roomId,
+      peerId: partner.socketId,
+      partner: {
+        userId: partner.userId,
+        preferences: partner.preferences
+      },
+      reason
     });
+  }
+
+  // Both users' nodes create the room; only the first user's counts it
+  if (nodeOf(first.socketId) === NODE_ID) {
+    matchesTotal.inc();
+  }
+  log.info('Match created', { roomId, socketIds: [first.socketId, second.socketId], score: reason.score });
+}
+
+// Add a local user to the cluster-wide waiting queue
+function enqueue(socketId) {
+  const user = store.getUser(socketId);
+  if (!user) return;
+
+  store.queue.set(socketId, { socketId, preferences: user.preferences, enqueuedAt: Date.now() });
+  publishEnqueue(socketId, user);
+}
 
-    socket.emit('registration-success', { 
-      socketId: socket.id,
-      message: 'User registered successfully' 
+// Hand a waiting user to the coordinator
+function publishEnqueue(socketId, user) {
+  broker.publish(MATCHMAKING_CHANNEL, {
+    kind: 'enqueue',
+    socketId,
+    userId: user.userId,
+    preferences: user.preferences
+  });
+}
+
+// Find match for user
+function handleFindMatch(connection, { preferences }) {
+  const socketId = connection.id;
+  log.debug('Looking for match', { socketId });
+
+  const user = store.getUser(socketId);
+  if (!user) {
+    connection.send(SERVER_MESSAGES.ROOM_ERROR, {
+      code: ERROR_CODES.NOT_REGISTERED,
+      message: 'User not registered'
     });
+    return { code: ERROR_CODES.NOT_REGISTERED, message: 'User not registered' };
+  }
+
+  if (drainDeadline) {
+    sendDraining(connection);
+    return { code: ERROR_CODES.SERVER_DRAINING, message: 'Server is shutting down' };
+  }
+
+  if (!matchmakingEnabled) {
+    sendMatchmakingDisabled(socketId);
+    return { code: ERROR_CODES.MATCHMAKING_DISABLED, message: 'Matchmaking is paused for maintenance' };
+  }
+
+  const cooldownMs = skipThrottle.cooldownRemaining(user.userId);
+  if (cooldownMs > 0) {
+    log.warn('Skipping too fast', { socketId, userId: user.userId, cooldownMs });
+    return rateLimited(connection, CLIENT_MESSAGES.FIND_MATCH, cooldownMs, 'You are skipping too fast, please wait a moment');
+  }
+
+  // Check if user is already in a room
+  const current = store.findRoomOf(socketId);
+  if (current) {
+    log.debug('Already in a room, ignoring find-match', { socketId, roomId: current.roomId });
+    return;
+  }
+
+  // Check if user is already waiting
+  if (store.queue.has(socketId)) {
+    log.debug('Already waiting, ignoring find-match', { socketId });
+    return;
+  }
+
+  if (preferences) {
+    user.preferences = { ...user.preferences, ...preferences };
+  }
+
+  enqueue(socketId);
+  log.info('Added to waiting list', { socketId, waiting: store.queue.size });
+
+  connection.send(SERVER_MESSAGES.SEARCH_STARTED, {
+    message: 'Searching for match...',
+    isSearching: true
   });
+}
+
+// Forward WebRTC signaling messages (offer/answer/ice-candidate) to the peer
+function handleRelay(connection, type, data) {
+  const socketId = connection.id;
+  const entry = store.findRoomOf(socketId);
+  if (entry) {
+    advanceRoomPhase(entry.roomId, entry.room, 'negotiating');
+    log.debug('Forwarding signaling message', { socketId, roomId: entry.roomId, peerId: entry.peerId, type });
+    sendTo(entry.peerId, type, { ...data, from: socketId });
+  } else {
+    log.warn('No target found for signaling message', { socketId, type });
+  }
+}
+
+// Move a room to a later phase; reports of an earlier or the same phase are ignored
+function advanceRoomPhase(roomId, room, phase) {
+  if (ROOM_PHASES.indexOf(phase) <= ROOM_PHASES.indexOf(room.phase)) return;
+
+  room.phase = phase;
+  log.info('Room phase changed', { roomId, phase, afterMs: Date.now() - room.createdAt.getTime() });
+}
+
+// A member reports how far their call got
+function handleRoomPhase(connection, { roomId, phase }) {
+  const room = store.getRoom(roomId);
+  // Late reports for a room that already ended are expected
+  if (room && (room.user1 === connection.id || room.user2 === connection.id)) {
+    advanceRoomPhase(roomId, room, phase);
+  }
+}
+
+// Tell a room member that their partner left. A member on another node has
+// their node drop its copy of the room too.
+function notifyRoomEnded(socketId, roomId, leaverId) {
+  if (nodeOf(socketId) === NODE_ID) {
+    sendTo(socketId, SERVER_MESSAGES.USER_LEFT, { from: leaverId });
+  } else {
+    toNode(socketId, { kind: 'room-ended', roomId, socketId, leaverId });
+  }
+}
+
+// Destroy a room and tell the remaining user that their partner left
+function endRoom(roomId, leaverId) {
+  const room = store.getRoom(roomId);
+  if (!room) return null;
+
+  const otherUser = room.user1 === leaverId ? room.user2 : room.user1;
+  advanceRoomPhase(roomId, room, 'ended');
+  store.deleteRoom(roomId);
+  roomDuration.observe((Date.now() - room.createdAt.getTime()) / 1000);
+  notifyRoomEnded(otherUser, roomId, leaverId);
+
+  return otherUser;
+}
+
+// Never match two users again (a block, or a report)
+function blockPair(blockerId, blockedId) {
+  broker.publish(MATCHMAKING_CHANNEL, { kind: 'block', blockerId, blockedId });
+}
 
-  // Find match for user
-  socket.on('find-match', (data) => {
-    console.log(`🔍 User ${socket.id} looking for match...`);
-    console.log(`📊 Current state - Active users: ${activeUsers.size}, Waiting: ${waitingUsers.size}, Rooms: ${activeRooms.size}`);
-    
-    const user = activeUsers.get(socket.id);
-    if (!user) {
-      socket.emit('room-error', { message: 'User not registered' });
-      return;
+// Close a banned user's connection, on whichever node it is
+function kickBanned(socketId, ban) {
+  if (nodeOf(socketId) !== NODE_ID) {
+    toNode(socketId, { kind: 'banned', socketId, ban });
+    return;
+  }
+
+  const connection = clients.get(socketId);
+  if (connection) {
+    sendBanned(connection, ban);
+    connection.close(CLOSE_CODES.BANNED, 'Banned');
+  }
+}
+
+// Leave current room. Leaving a call that connected counts as a skip for the
+// skip cooldown; one that never connected most likely failed, which is not the
+// user's doing.
+function handleLeaveRoom(connection, { roomId }) {
+  const room = store.getRoom(roomId);
+  if (!room || (room.user1 !== connection.id && room.user2 !== connection.id)) {
+    connection.send(SERVER_MESSAGES.ROOM_ERROR, { message: 'Not in this room' });
+    return;
+  }
+
+  const skipped = room.phase === 'connected';
+  endRoom(roomId, connection.id);
+  log.info('Left room', { socketId: connection.id, roomId, skipped });
+
+  const user = store.getUser(connection.id);
+  if (user && skipped) {
+    skipThrottle.recordSkip(user.userId);
+  }
+}
+
+// Block the partner in the current room and leave it
+function handleBlockUser(connection, { roomId }) {
+  const room = store.getRoom(roomId);
+  if (!room || (room.user1 !== connection.id && room.user2 !== connection.id)) {
+    connection.send(SERVER_MESSAGES.ROOM_ERROR, { message: 'Not in this room' });
+    return;
+  }
+
+  const otherUser = room.user1 === connection.id ? room.user2 : room.user1;
+  const blockerId = room.userIds[connection.id];
+  const blockedId = room.userIds[otherUser];
+  blockPair(blockerId, blockedId);
+  log.info('User blocked', { socketId: connection.id, roomId, userId: blockerId, blockedId });
+
+  endRoom(roomId, connection.id);
+}
+
+// Report the partner in the current room, then leave it
+function handleReportUser(connection, { roomId, reason, details }) {
+  const room = store.getRoom(roomId);
+  if (!room || (room.user1 !== connection.id && room.user2 !== connection.id)) {
+    connection.send(SERVER_MESSAGES.ROOM_ERROR, { message: 'Not in this room' });
+    return;
+  }
+
+  const otherUser = room.user1 === connection.id ? room.user2 : room.user1;
+  const reporterId = room.userIds[connection.id];
+  const reportedId = room.userIds[otherUser];
+
+  const { report, ban } = moderation.addReport({
+    reporterId,
+    reportedId,
+    reason,
+    details,
+    roomId
+  });
+  log.info('User reported', { socketId: connection.id, roomId, userId: reporterId, reportedId, reason });
+  broker.publish(BROADCAST_CHANNEL, { kind: 'report', report, origin: NODE_ID });
+
+  // Reporting someone also means never seeing them again
+  blockPair(reporterId, reportedId);
+  endRoom(roomId, connection.id);
+  connection.send(SERVER_MESSAGES.REPORT_RECEIVED, { reportId: report.id });
+
+  if (ban) {
+    log.warn('User banned', { userId: reportedId, bannedUntil: new Date(ban.expiresAt).toISOString() });
+    shareBan(ban);
+    kickBanned(otherUser, ban);
+  }
+}
+
+// End a room whose call never connected and put its members back in the
+// queue. Members on another node are dissolved there.
+function dissolveRoom(roomId, reason) {
+  const room = store.getRoom(roomId);
+  if (!room) return;
+
+  log.info('Room dissolved', { roomId, reason, phase: room.phase });
+  advanceRoomPhase(roomId, room, 'ended');
+  store.deleteRoom(roomId);
+  roomsDissolvedTotal.inc({ reason });
+
+  for (const socketId of [room.user1, room.user2]) {
+    if (nodeOf(socketId) !== NODE_ID) {
+      toNode(socketId, { kind: 'room-dissolved', roomId, reason });
+      continue;
     }
 
-    // Check if user is already in a room
-    for (const [roomId, room] of activeRooms.entries()) {
-      if (room.user1 === socket.id || room.user2 === socket.id) {
-        console.log(`⚠️ User ${socket.id} already in room ${roomId}, ignoring find-match`);
-        return;
-      }
+    // Suspended members find out when they resume
+    const requeued = clients.has(socketId) && matchmakingEnabled && !drainDeadline;
+    if (requeued) {
+      enqueue(socketId);
     }
+    sendTo(socketId, SERVER_MESSAGES.ROOM_DISSOLVED, { roomId, reason, requeued });
+  }
+}
 
-    // Check if user is already waiting
-    if (waitingUsers.has(socket.id)) {
-      console.log(`⚠️ User ${socket.id} already waiting, ignoring find-match`);
-      return;
+// Drop state whose owner is gone: users with neither a connection nor a
+// resumable session, queue entries of unknown users, and rooms a local
+// member no longer belongs to. None of these should survive the normal
+// disconnect path; the sweep keeps a missed cleanup from living forever.
+function sweepOrphans() {
+  for (const user of store.listUsers()) {
+    if (!clients.has(user.socketId) && !sessions.isSuspended(user.socketId)) {
+      log.warn('Sweeping orphaned user', { socketId: user.socketId, userId: user.userId });
+      orphansSweptTotal.inc({ kind: 'user' });
+      removeUser(user.socketId);
     }
+  }
 
-    // Check if there's someone waiting
-    const waitingUser = Array.from(waitingUsers)[0];
-    console.log(`👀 Waiting users:`, Array.from(waitingUsers));
-    
-    if (waitingUser && waitingUser !== socket.id) {
-      // Match found! Create room
-      const roomId = uuidv4();
-      const user1 = activeUsers.get(waitingUser);
-      const user2 = activeUsers.get(socket.id);
-
-      // Remove from waiting list
-      waitingUsers.delete(waitingUser);
-      
-      // Create room
-      activeRooms.set(roomId, {
-        user1: user1.socketId,
-        user2: user2.socketId,
-        createdAt: new Date()
-      });
-
-      // Join both users to the room
-      socket.join(roomId);
-      io.sockets.sockets.get(waitingUser)?.join(roomId);
-
-      // Notify both users
-      socket.emit('match-found', {
-        roomId,
-        peerId: waitingUser,
-        partner: {
-          userId: user1.userId,
-          preferences: user1.preferences
-        }
-      });
-
-      io.to(waitingUser).emit('match-found', {
-        roomId,
-        peerId: socket.id,
-        partner: {
-          userId: user2.userId,
-          preferences: user2.preferences
-        }
-      });
-
-      console.log(`🎉 Match created! Room: ${roomId}, Users: ${waitingUser} <-> ${socket.id}`);
-    } else {
-      // Add to waiting list
-      waitingUsers.add(socket.id);
-      console.log(`⏳ User ${socket.id} added to waiting list. Total waiting: ${waitingUsers.size}`);
-      
-      socket.emit('search-started', { 
-        message: 'Searching for match...',
-        isSearching: true 
-      });
-      
-      // Simulate timeout after 30 seconds if no match found
-      setTimeout(() => {
-        if (waitingUsers.has(socket.id)) {
-          socket.emit('no-match', { message: 'No match found, continuing search...' });
-        }
-      }, 30000);
+  for (const socketId of Array.from(store.queue.keys())) {
+    if (!store.hasUser(socketId)) {
+      log.warn('Sweeping orphaned queue entry', { socketId });
+      orphansSweptTotal.inc({ kind: 'queue' });
+      leaveQueue(socketId);
+    }
+  }
+
+  for (const { roomId, user1, user2 } of store.listRooms()) {
+    const gone = [user1, user2].find((socketId) => nodeOf(socketId) === NODE_ID && !store.hasUser(socketId));
+    if (gone) {
+      log.warn('Sweeping orphaned room', { roomId, socketId: gone });
+      orphansSweptTotal.inc({ kind: 'room' });
+      endRoom(roomId, gone);
     }
+  }
+}
+
+// Users waiting on this node, longest waiting first
+function listWaiting() {
+  const now = Date.now();
+  return Array.from(store.queue.values(), ({ socketId, enqueuedAt }) => ({
+    socketId,
+    userId: store.getUser(socketId)?.userId,
+    waitingMs: now - enqueuedAt
+  })).sort((a, b) => b.waitingMs - a.waitingMs);
+}
+
+// Rooms with a member on this node, oldest first
+function listRooms() {
+  const now = Date.now();
+  return store.listRooms()
+    .map((room) => ({ ...room, ageMs: now - room.createdAt.getTime() }))
+    .sort((a, b) => b.ageMs - a.ageMs);
+}
+
+// End a room for both members, as if each had left
+function forceEndRoom(roomId) {
+  const room = store.getRoom(roomId);
+  if (!room) return false;
+
+  endRoom(roomId, room.user1);
+  notifyRoomEnded(room.user1, roomId, room.user2);
+  log.info('Room ended by operator', { roomId });
+  return true;
+}
+
+// Disconnect a socket on this node. Its session is dropped rather than
+// suspended, so the client cannot resume it and its room ends right away.
+function kickSocket(socketId) {
+  const connection = clients.get(socketId);
+  if (!connection) return false;
+
+  log.info('Socket kicked by operator', { socketId });
+  sessions.forget(socketId);
+  connection.close(CLOSE_CODES.KICKED, 'Kicked');
+  return true;
+}
+
+// Ban the user behind a socket on this node and disconnect them
+function banSocket(socketId, { reason = 'admin', durationMs } = {}) {
+  const user = store.getUser(socketId);
+  if (!user) return null;
+
+  const ban = moderation.ban({ userId: user.userId, reason, durationMs });
+  log.warn('User banned by operator', { socketId, userId: user.userId, bannedUntil: new Date(ban.expiresAt).toISOString() });
+  shareBan(ban);
+  sessions.forget(socketId);
+  kickBanned(socketId, ban);
+  return ban;
+}
+
+// Other nodes enforce the ban too, so the user cannot register there instead
+function shareBan(ban) {
+  broker.publish(BROADCAST_CHANNEL, { kind: 'ban', ban, origin: NODE_ID });
+}
+
+// Lift a ban on every node. Returns whether this node knew the ban.
+function liftBan(userId) {
+  const lifted = moderation.liftBan(userId);
+  broker.publish(BROADCAST_CHANNEL, { kind: 'unban', userId, origin: NODE_ID });
+  return lifted;
+}
+
+// Answer a heartbeat so the client can measure round-trip time
+function handlePing(connection, { sentAt }) {
+  connection.send(SERVER_MESSAGES.PONG, { sentAt });
+}
+
+// Send server stats (useful for debugging)
+function handleGetStats(connection) {
+  connection.send(SERVER_MESSAGES.SERVER_STATS, {
+    activeUsers: store.userCount(),
+    waitingUsers: store.queue.size,
+    activeRooms: store.roomCount(),
+    timestamp: new Date().toISOString()
   });
+}
 
-  // Handle WebRTC signaling messages
-  socket.on('signaling-message', (message) => {
-    console.log(`📡 Signaling message from ${socket.id}:`, message.type);
-    
-    // Find the room this user is in
-    let targetRoom = null;
-    let targetUser = null;
-
-    for (const [roomId, room] of activeRooms.entries()) {
-      if (room.user1 === socket.id) {
-        targetRoom = roomId;
-        targetUser = room.user2;
-        break;
-      } else if (room.user2 === socket.id) {
-        targetRoom = roomId;
-        targetUser = room.user1;
-        break;
-      }
+const messageHandlers = {
+  [CLIENT_MESSAGES.REGISTER_USER]: handleRegisterUser,
+  [CLIENT_MESSAGES.RESUME_SESSION]: handleResumeSession,
+  [CLIENT_MESSAGES.FIND_MATCH]: handleFindMatch,
+  [CLIENT_MESSAGES.LEAVE_ROOM]: handleLeaveRoom,
+  [CLIENT_MESSAGES.BLOCK_USER]: handleBlockUser,
+  [CLIENT_MESSAGES.REPORT_USER]: handleReportUser,
+  [CLIENT_MESSAGES.GET_STATS]: handleGetStats,
+  [CLIENT_MESSAGES.GET_ICE_SERVERS]: handleGetIceServers,
+  [CLIENT_MESSAGES.ROOM_PHASE]: handleRoomPhase,
+  [CLIENT_MESSAGES.PING]: handlePing,
+};
+
+// Validate an incoming envelope and dispatch it to its handler
+function handleMessage(connection, raw) {
+  connection.lastSeenAt = Date.now();
+  const result = parseClientEnvelope(raw);
+
+  if (!result.ok) {
+    log.warn('Rejected message', { socketId: connection.id, code: result.code, reason: result.message });
+    connection.send(SERVER_MESSAGES.PROTOCOL_ERROR, { code: result.code, message: result.message });
+    if (result.id) {
+      connection.send(SERVER_MESSAGES.ACK, { id: result.id, ok: false, code: result.code, message: result.message });
     }
 
-    if (targetRoom && targetUser) {
-      // Forward message to the other user in the room with proper structure
-      const forwardedMessage = {
-        ...message.data,
-        from: socket.id
-      };
-      
-      console.log(`📤 Forwarding ${message.type} from ${socket.id} to ${targetUser}`);
-      io.to(targetUser).emit(message.type, forwardedMessage);
-    } else {
-      console.log(`❌ No target found for signaling message from ${socket.id}`);
+    if (result.code === ERROR_CODES.UNSUPPORTED_VERSION) {
+      connection.close(CLOSE_CODES.UNSUPPORTED_VERSION, 'Unsupported protocol version');
     }
-  });
+    return;
+  }
+
+  const { type, data, id } = result.envelope;
+  messagesTotal.inc({ type });
+
+  // Handlers return { code, message } when they refuse a message
+  let rejection = checkRateLimit(connection, type);
+  if (!rejection) {
+    rejection = RELAYED_MESSAGES.includes(type)
+      ? handleRelay(connection, type, data)
+      : messageHandlers[type](connection, data);
+  }
+
+  // Confirm processing to clients that asked for it
+  if (id) {
+    connection.send(SERVER_MESSAGES.ACK, rejection ? { id, ok: false, ...rejection } : { id, ok: true });
+  }
+}
+
+// Handle disconnect
+function handleDisconnect(connection) {
+  const socketId = connection.id;
+
+  // Superseded by a resumed connection for the same session
+  if (clients.get(socketId) !== connection) {
+    return;
+  }
+
+  log.info('User disconnected', { socketId });
+
+  clients.delete(socketId);
+  socketLimiter.forget(socketId);
 
-  // Leave current room
-  socket.on('leave-room', (data) => {
-    console.log(`🚪 User ${socket.id} leaving room:`, data.roomId);
-    
-    const room = activeRooms.get(data.roomId);
-    if (room) {
-      // Notify the other user
-      const otherUser = room.user1 === socket.id ? room.user2 : room.user1;
-      io.to(otherUser).emit('user-left', { from: socket.id });
-      
-      // Remove room
-      activeRooms.delete(data.roomId);
-      
-      // Leave socket room
-      socket.leave(data.roomId);
-      io.sockets.sockets.get(otherUser)?.leave(data.roomId);
-      
-      console.log(`🗑️ Room ${data.roomId} destroyed`);
+  // Remove from waiting list
+  leaveQueue(socketId);
+
+  // Keep the room alive in case the client comes back with its resume token
+  if (sessions.suspend(socketId)) {
+    log.info('Session suspended, waiting for resume', { socketId });
+    return;
+  }
+
+  removeUser(socketId);
+}
+
+// Drop a user for good, ending any room they are still in
+function removeUser(socketId) {
+  const entry = store.findRoomOf(socketId);
+  if (entry) {
+    endRoom(entry.roomId, socketId);
+    log.info('Cleaned up room after disconnect', { socketId, roomId: entry.roomId });
+  }
+
+  // Remove user from active users
+  store.deleteUser(socketId);
+}
+
+// Messages from other nodes (and from the coordinator) for sockets on this node
+const clusterHandlers = {
+  deliver: ({ socketId, type, data }) => sendTo(socketId, type, data),
+  matched: handleMatched,
+  'room-ended': ({ roomId, socketId, leaverId }) => {
+    // Already gone if this node dissolved or swept the room in the meantime
+    if (store.deleteRoom(roomId)) {
+      sendTo(socketId, SERVER_MESSAGES.USER_LEFT, { from: leaverId });
     }
-  });
+  },
+  'room-dissolved': ({ roomId, reason }) => dissolveRoom(roomId, reason),
+  banned: ({ socketId, ban }) => kickBanned(socketId, ban),
+  // A peer's answer to our start-up announcement
+  'node-sync': ({ reports, bans, notice, matchmaking }) => {
+    reports.forEach((report) => moderation.importReport(report));
+    bans.forEach((ban) => moderation.importBan(ban));
+    maintenanceNotice = notice;
+    matchmakingEnabled = matchmaking;
+  },
+};
 
-  // Handle disconnect
-  socket.on('disconnect', () => {
-    console.log(`❌ User disconnected: ${socket.id}`);
-    
-    // Remove from waiting list
-    waitingUsers.delete(socket.id);
-    
-    // Find and clean up any active rooms
-    for (const [roomId, room] of activeRooms.entries()) {
-      if (room.user1 === socket.id || room.user2 === socket.id) {
-        const otherUser = room.user1 === socket.id ? room.user2 : room.user1;
-        
-        // Notify the other user
-        io.to(otherUser).emit('user-left', { from: socket.id });
-        
-        // Clean up room
-        activeRooms.delete(roomId);
-        io.sockets.sockets.get(otherUser)?.leave(roomId);
-        
-        console.log(`🧹 Cleaned up room ${roomId} due to user disconnect`);
-        break;
+broker.subscribe(nodeChannel(NODE_ID), (message) => {
+  clusterHandlers[message.kind]?.(message);
+});
+
+// Operator actions published by whichever node received the admin request
+const broadcastHandlers = {
+  notice: ({ notice }) => {
+    maintenanceNotice = notice;
+    log.info(notice ? 'Maintenance notice published' : 'Maintenance notice withdrawn', { notice: notice?.message });
+    for (const connection of clients.values()) {
+      if (store.hasUser(connection.id)) {
+        connection.send(SERVER_MESSAGES.MAINTENANCE_NOTICE, notice || { message: null });
       }
     }
-    
-    // Remove user from active users
-    activeUsers.delete(socket.id);
-    
-    console.log(`📊 Stats - Active users: ${activeUsers.size}, Waiting: ${waitingUsers.size}, Rooms: ${activeRooms.size}`);
-  });
+  },
+  matchmaking: ({ enabled }) => {
+    matchmakingEnabled = enabled;
+    log.info(enabled ? 'Matchmaking enabled' : 'Matchmaking disabled');
+    if (!enabled) {
+      for (const socketId of Array.from(store.queue.keys())) {
+        leaveQueue(socketId);
+        sendMatchmakingDisabled(socketId);
+      }
+    }
+  },
+  // Moderation made on another node
+  report: ({ report, origin }) => {
+    if (origin !== NODE_ID) moderation.importReport(report);
+  },
+  ban: ({ ban, origin }) => {
+    if (origin !== NODE_ID) moderation.importBan(ban);
+  },
+  unban: ({ userId, origin }) => {
+    if (origin !== NODE_ID) moderation.liftBan(userId);
+  },
+  'node-started': ({ nodeId, coordinator: isCoordinator }) => {
+    if (nodeId === NODE_ID) return;
 
-  // Send server stats (useful for debugging)
-  socket.on('get-stats', () => {
-    socket.emit('server-stats', {
-      activeUsers: activeUsers.size,
-      waitingUsers: waitingUsers.size,
-      activeRooms: activeRooms.size,
-      timestamp: new Date().toISOString()
+    log.info('Node started', { peerId: nodeId, coordinator: isCoordinator });
+    broker.publish(nodeChannel(nodeId), {
+      kind: 'node-sync',
+      reports: moderation.listReports(),
+      bans: moderation.listBans(),
+      notice: maintenanceNotice,
+      matchmaking: matchmakingEnabled
     });
+
+    // A new coordinator starts with an empty queue
+    if (isCoordinator) {
+      for (const socketId of store.queue.keys()) {
+        const user = store.getUser(socketId);
+        if (user) publishEnqueue(socketId, user);
+      }
+    }
+  },
+};
+
+broker.subscribe(BROADCAST_CHANNEL, (message) => {
+  broadcastHandlers[message.kind]?.(message);
+});
+
+// Peers answer with their moderation state and operator switches, and hand
+// a restarted coordinator the users waiting on them
+broker.publish(BROADCAST_CHANNEL, { kind: 'node-started', nodeId: NODE_ID, coordinator: !!coordinator });
+
+if (coordinator) {
+  // Pair up waiting users whose criteria have widened enough to match
+  setInterval(() => coordinator.sweep(), MATCH_SWEEP_INTERVAL);
+  setInterval(() => coordinator.prune(), HISTORY_PRUNE_INTERVAL);
+}
+
+// Let users who have been waiting a while know the search is still going
+setInterval(() => {
+  const now = Date.now();
+  for (const { socketId, enqueuedAt } of store.queue.values()) {
+    const waitedMs = now - enqueuedAt;
+    // Exactly one sweep falls into this window per waiting user
+    if (waitedMs >= NO_MATCH_NOTICE_AFTER && waitedMs < NO_MATCH_NOTICE_AFTER + MATCH_SWEEP_INTERVAL) {
+      sendTo(socketId, SERVER_MESSAGES.NO_MATCH, { message: 'No match found, continuing search...' });
+    }
+  }
+}, MATCH_SWEEP_INTERVAL);
+
+
+// Dissolve rooms whose call never connected, then drop orphaned state
+setInterval(() => {
+  const now = Date.now();
+  for (const { roomId, phase, createdAt } of store.listRooms()) {
+    if (phase !== 'connected' && now - createdAt.getTime() > NEGOTIATION_TIMEOUT) {
+      dissolveRoom(roomId, 'negotiation-timeout');
+    }
+  }
+  sweepOrphans();
+}, ROOM_SWEEP_INTERVAL);
+
+setInterval(() => {
+  socketLimiter.prune();
+  ipLimiter.prune();
+  skipThrottle.prune();
+}, LIMITER_PRUNE_INTERVAL);
+
+setInterval(() => moderation.prune(), MODERATION_PRUNE_INTERVAL);
+
+// Evict half-open connections that stopped sending anything. Their session is
+// suspended like any other disconnect, so they leave the queue immediately and
+// their room once the resume grace period runs out. Connections that never
+// authenticated are closed as well.
+setInterval(() => {
+  const now = Date.now();
+  for (const connection of Array.from(clients.values())) {
+    if (!store.hasUser(connection.id) && now - connection.connectedAt > AUTH_TIMEOUT) {
+      rejectUnauthorized(connection, 'No registration within the authentication timeout');
+    } else if (now - connection.lastSeenAt > HEARTBEAT_TIMEOUT) {
+      log.info('No heartbeat, evicting', { socketId: connection.id });
+      handleDisconnect(connection);
+      connection.close(CLOSE_CODES.HEARTBEAT_TIMEOUT, 'Heartbeat timeout');
+    }
+  }
+}, HEARTBEAT_SWEEP_INTERVAL);
+
+// Client address for per-IP limits. X-Forwarded-For is only trusted behind a
+// proxy (TRUST_PROXY=1), since clients can set it themselves.
+function clientIp(headers, remoteAddress) {
+  const forwarded = headers['x-forwarded-for'];
+  if (process.env.TRUST_PROXY && typeof forwarded === 'string') {
+    return forwarded.split(',')[0].trim();
+  }
+  return remoteAddress || 'unknown';
+}
+
+// Track a new transport connection and greet it with its socket id
+function acceptConnection(connection) {
+  log.info('User connected', { socketId: connection.id, ip: connection.ip });
+  connection.connectedAt = Date.now();
+  connection.lastSeenAt = connection.connectedAt;
+  clients.set(connection.id, connection);
+  connection.send(SERVER_MESSAGES.CONNECT, { sid: connection.id });
+}
+
+// The transport connection is gone, whoever closed it
+function connectionClosed(connection) {
+  disconnectsTotal.inc({ reason: DISCONNECT_REASONS[connection.closeCode] || 'client-closed' });
+  handleDisconnect(connection);
+}
+
+io.on('connection', (socket) => {
+  const connection = {
+    id: createSocketId(NODE_ID, socket.id),
+    ip: clientIp(socket.handshake.headers, socket.handshake.address),
+    send: (type, data) => socket.emit('message', createEnvelope(type, data)),
+    // Socket.IO has no close codes, so announce ours before disconnecting
+    close: (code, reason) => {
+      connection.closeCode = code;
+      socket.emit('closing', { code, reason });
+      socket.disconnect(true);
+    },
+  };
+
+  acceptConnection(connection);
+  socket.on('message', (envelope) => handleMessage(connection, envelope));
+  socket.on('disconnect', () => connectionClosed(connection));
+});
+
+wss.on('connection', (ws, req) => {
+  const connection = {
+    id: createSocketId(NODE_ID, uuidv4()),
+    ip: clientIp(req.headers, req.socket.remoteAddress),
+    send: (type, data) => {
+      if (ws.readyState === ws.OPEN) {
+        ws.send(JSON.stringify(createEnvelope(type, data)));
+      }
+    },
+    close: (code, reason) => {
+      connection.closeCode = code;
+      ws.close(code, reason);
+    },
+  };
+
+  acceptConnection(connection);
+  ws.on('message', (raw) => handleMessage(connection, raw.toString()));
+  ws.on('close', (code) => {
+    connection.closeCode ??= code;
+    connectionClosed(connection);
   });
+  // e.g. an oversized frame; ws closes the socket itself afterwards
+  ws.on('error', (error) => log.warn('WebSocket error', { socketId: connection.id, error: error.message }));
 });
 
 // Server status endpoint
 app.get('/status', (req, res) => {
   res.json({
-    activeUsers: activeUsers.size,
-    waitingUsers: waitingUsers.size,
-    activeRooms: activeRooms.size,
+    activeUsers: store.userCount(),
+    waitingUsers: store.queue.size,
+    activeRooms: store.roomCount(),
+    protocolVersion: PROTOCOL_VERSION,
+    nodeId: NODE_ID,
+    matchCoordinator: !!coordinator,
+    draining: !!drainDeadline,
+    turnEnabled: turnCredentials.isEnabled(),
     uptime: process.uptime(),
     timestamp: new Date().toISOString()
   });
 });
 
+// Prometheus scrape endpoint
+app.get('/metrics', (req, res) => {
+  res.type(CONTENT_TYPE).send(metrics.render());
+});
+
 const PORT = process.env.PORT || 3001;
 
+// PORT=0 picks a free port; the one actually bound is logged
 server.listen(PORT, () => {
-  console.log(`🎯 Signaling server running on port ${PORT}`);
-  console.log(`📊 Status endpoint: http://localhost:${PORT}/status`);
-  console.log(`💓 Health check: http://localhost:${PORT}/health`);
-  console.log('🎮 Ready for WebRTC connections!');
+  log.info('Signaling server listening', {
+    port: server.address().port,
+    wsPath: WS_PATH,
+    multiNode: !!process.env.REDIS_URL,
+    matchCoordinator: !!coordinator
+  });
 });
 
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  console.log('🛑 Received SIGTERM, shutting down gracefully');
+// Close every connection and exit
+function shutdown() {
+  for (const connection of Array.from(clients.values())) {
+    connection.close(CLOSE_CODES.SERVER_SHUTDOWN, 'Server shutting down');
+  }
+  store.flush();
   server.close(() => {
-    console.log('✅ Server closed successfully');
+    log.info('Server closed');
     process.exit(0);
   });
-});
+  setTimeout(() => process.exit(0), SHUTDOWN_GRACE).unref();
+}
 
-process.on('SIGINT', () => {
-  console.log('🛑 Received SIGINT, shutting down gracefully');
-  server.close(() => {
-    console.log('✅ Server closed successfully');
-    process.exit(0);
+// Graceful shutdown. Draining takes this node out of matchmaking and tells
+// every client to reconnect elsewhere; rooms may finish until the deadline,
+// then the remaining connections are closed. A second signal exits at once.
+// Waiting users of the whole cluster are matched by the coordinator, so
+// restart the coordinator node last.
+function startDrain(signal) {
+  if (drainDeadline) {
+    log.warn('Shutdown signal while draining, exiting now', { signal });
+    shutdown();
+    return;
+  }
+
+  drainDeadline = Date.now() + DRAIN_TIMEOUT;
+  log.info('Draining', {
+    signal,
+    deadline: new Date(drainDeadline).toISOString(),
+    rooms: store.roomCount(),
+    clients: clients.size
   });
-});
+
+  for (const socketId of Array.from(store.queue.keys())) {
+    leaveQueue(socketId);
+  }
+  for (const connection of clients.values()) {
+    sendDraining(connection);
+  }
+
+  const drainTimer = setInterval(() => {
+    if (store.roomCount() === 0 || Date.now() >= drainDeadline) {
+      clearInterval(drainTimer);
+      log.info('Drain finished', { rooms: store.roomCount(), clients: clients.size });
+      shutdown();
+    }
+  }, DRAIN_CHECK_INTERVAL);
+}
+
+process.on('SIGTERM', () => startDrain('SIGTERM'));
+process.on('SIGINT', () => startDrain('SIGINT'));
@@ -0,0 +1,82 @@
+// Signed session tokens that authenticate a signaling connection.
+//
+// A token is `<payload>.<signature>`, both base64url encoded, where the payload
+// is JSON `{ sub, iat, exp }` (userId and unix seconds) and the signature is
+// HMAC-SHA256 over the encoded payload. The server binds the connection to
+// `sub`, so clients can no longer pick their own userId.
+
+const crypto = require('crypto');
+const { v4: uuidv4 } = require('uuid');
+
+const DEFAULT_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+function createSessionTokens({
+  secret,
+  ttlSeconds = DEFAULT_TTL_SECONDS,
+  now = Date.now,
+} = {}) {
+  if (!secret) {
+    throw new Error('A secret is required to sign session tokens');
+  }
+
+  const sign = (encodedPayload) =>
+    crypto.createHmac('sha256', secret).update(encodedPayload).digest('base64url');
+
+  function issue(userId) {
+    const issuedAt = Math.floor(now() / 1000);
+    const payload = { sub: userId, iat: issuedAt, exp: issuedAt + ttlSeconds };
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    return {
+      token: `${encodedPayload}.${sign(encodedPayload)}`,
+      userId,
+      expiresAt: payload.exp * 1000,
+    };
+  }
+
+  // Claims of a valid, unexpired token, or null
+  function verify(token) {
+    if (typeof token !== 'string') return null;
+
+    const [encodedPayload, signature, ...rest] = token.split('.');
+    if (!encodedPayload || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(sign(encodedPayload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    let payload;
+    try {
+      payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString());
+    } catch {
+      return null;
+    }
+
+    if (typeof payload.sub !== 'string' || typeof payload.exp !== 'number') return null;
+    if (now() >= payload.exp * 1000) return null;
+
+    return { userId: payload.sub, expiresAt: payload.exp * 1000 };
+  }
+
+  return {
+    // Token for a brand new anonymous user
+    issueAnonymous() {
+      return issue(uuidv4());
+    },
+
+    // Fresh token for the user of a still valid one, or null
+    refresh(token) {
+      const claims = verify(token);
+      return claims ? issue(claims.userId) : null;
+    },
+
+    verify,
+  };
+}
+
+module.exports = {
+  createSessionTokens,
+  DEFAULT_TTL_SECONDS,
+};
@@ -0,0 +1,68 @@
+// Escalating cooldown for users who skip partners in rapid succession.
+//
+// The first `freeSkips` skips within `windowMs` are free. Every skip beyond
+// that doubles the cooldown before the user may search again, starting at
+// `baseCooldownMs` and capped at `maxCooldownMs`. Tracked by userId so
+// reconnecting does not reset it.
+
+const DEFAULT_FREE_SKIPS = 5;
+const DEFAULT_WINDOW = 60 * 1000;
+const DEFAULT_BASE_COOLDOWN = 2000;
+const DEFAULT_MAX_COOLDOWN = 60 * 1000;
+
+function createSkipThrottle({
+  now = Date.now,
+  freeSkips = DEFAULT_FREE_SKIPS,
+  windowMs = DEFAULT_WINDOW,
+  baseCooldownMs = DEFAULT_BASE_COOLDOWN,
+  maxCooldownMs = DEFAULT_MAX_COOLDOWN,
+} = {}) {
+  const skippers = new Map(); // userId -> { skips: number[], cooldownUntil }
+
+  function recentSkips(entry, at) {
+    entry.skips = entry.skips.filter((skippedAt) => at - skippedAt < windowMs);
+    return entry.skips.length;
+  }
+
+  return {
+    // Record a skip. Returns the cooldown it triggered in ms (0 when free).
+    recordSkip(userId) {
+      const at = now();
+      const entry = skippers.get(userId) || { skips: [], cooldownUntil: 0 };
+      skippers.set(userId, entry);
+
+      entry.skips.push(at);
+      const excess = recentSkips(entry, at) - freeSkips;
+      if (excess <= 0) {
+        return 0;
+      }
+
+      const cooldownMs = Math.min(maxCooldownMs, baseCooldownMs * 2 ** (excess - 1));
+      entry.cooldownUntil = at + cooldownMs;
+      return cooldownMs;
+    },
+
+    // Time in ms until the user may search again
+    cooldownRemaining(userId) {
+      const entry = skippers.get(userId);
+      return entry ? Math.max(0, entry.cooldownUntil - now()) : 0;
+    },
+
+    // Forget users with no recent skips and no active cooldown
+    prune() {
+      const at = now();
+      for (const [userId, entry] of skippers) {
+        if (recentSkips(entry, at) === 0 && entry.cooldownUntil <= at) {
+          skippers.delete(userId);
+        }
+      }
+    },
+  };
+}
+
+module.exports = {
+  createSkipThrottle,
+  DEFAULT_FREE_SKIPS,
+  DEFAULT_BASE_COOLDOWN,
+  DEFAULT_MAX_COOLDOWN,
+};
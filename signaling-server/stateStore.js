@@ -0,0 +1,196 @@
+// Server state behind one interface so the backing storage can be swapped.
+//
+// A store holds:
+//   users    socketId -> registered user
+//   queue    socketId -> matchmaking entry (the Map-like the matchmaker uses)
+//   rooms    roomId -> { user1, user2, createdAt }, plus a socketId -> roomId
+//            index so finding a user's room is O(1)
+//   reports  abuse reports, indexed by reported userId; old ones are dropped
+//            with deleteReportsBefore()
+//   bans     userId -> ban
+//
+// `createMemoryStore` keeps everything in process. `createFileStore` wraps it
+// and persists reports and bans to a JSON file so they survive restarts;
+// users, the queue and rooms belong to live sockets and are never persisted.
+
+const fs = require('fs');
+const path = require('path');
+const { logger: rootLogger } = require('./logger');
+
+const FILE_FORMAT_VERSION = 1;
+const DEFAULT_WRITE_DELAY = 1000;
+
+function createMemoryStore() {
+  const users = new Map();
+  const queue = new Map();
+  const rooms = new Map();
+  const roomBySocket = new Map();
+  const reports = []; // oldest first
+  const reportsByUser = new Map(); // reportedId -> reports, oldest first
+  const bans = new Map();
+
+  return {
+    queue,
+
+    // Users
+    getUser: (socketId) => users.get(socketId),
+    setUser: (socketId, user) => users.set(socketId, user),
+    hasUser: (socketId) => users.has(socketId),
+    deleteUser: (socketId) => users.delete(socketId),
+    userCount: () => users.size,
+    listUsers: () => Array.from(users.values()),
+
+    // Rooms
+    getRoom: (roomId) => rooms.get(roomId),
+
+    createRoom(roomId, room) {
+      rooms.set(roomId, room);
+      roomBySocket.set(room.user1, roomId);
+      roomBySocket.set(room.user2, roomId);
+    },
+
+    deleteRoom(roomId) {
+      const room = rooms.get(roomId);
+      if (!room) return false;
+
+      rooms.delete(roomId);
+      roomBySocket.delete(room.user1);
+      roomBySocket.delete(room.user2);
+      return true;
+    },
+
+    // The room a socket is in and its partner there, or null
+    findRoomOf(socketId) {
+      const roomId = roomBySocket.get(socketId);
+      const room = roomId && rooms.get(roomId);
+      if (!room) return null;
+      return { roomId, room, peerId: room.user1 === socketId ? room.user2 : room.user1 };
+    },
+
+    roomCount: () => rooms.size,
+    listRooms: () => Array.from(rooms, ([roomId, room]) => ({ roomId, ...room })),
+
+    // Reports
+    addReport(report) {
+      reports.push(report);
+      if (!reportsByUser.has(report.reportedId)) {
+        reportsByUser.set(report.reportedId, []);
+      }
+      reportsByUser.get(report.reportedId).push(report);
+    },
+
+    listReports({ userId } = {}) {
+      return userId ? [...(reportsByUser.get(userId) || [])] : [...reports];
+    },
+
+    // Drop reports created before `cutoff`. Returns how many were dropped.
+    deleteReportsBefore(cutoff) {
+      const kept = reports.filter((report) => report.createdAt >= cutoff);
+      const removed = reports.length - kept.length;
+      if (removed === 0) return 0;
+
+      reports.length = 0;
+      kept.forEach((report) => reports.push(report));
+      for (const [userId, userReports] of reportsByUser) {
+        const keptForUser = userReports.filter((report) => report.createdAt >= cutoff);
+        if (keptForUser.length > 0) {
+          reportsByUser.set(userId, keptForUser);
+        } else {
+          reportsByUser.delete(userId);
+        }
+      }
+      return removed;
+    },
+
+    // Bans
+    getBan: (userId) => bans.get(userId),
+    setBan: (ban) => bans.set(ban.userId, ban),
+    deleteBan: (userId) => bans.delete(userId),
+    listBans: () => Array.from(bans.values()),
+
+    flush() {},
+  };
+}
+
+// Memory store whose reports and bans are mirrored to `filePath`. Writes are
+// batched by `writeDelayMs` and replace the file atomically; call flush()
+// before exiting to write pending changes immediately.
+function createFileStore({ filePath, writeDelayMs = DEFAULT_WRITE_DELAY, logger = rootLogger }) {
+  const store = createMemoryStore();
+  let writeTimer = null;
+
+  if (fs.existsSync(filePath)) {
+    const saved = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    if (saved.version !== FILE_FORMAT_VERSION) {
+      throw new Error(`Unsupported state file version ${saved.version} in ${filePath}`);
+    }
+    saved.reports.forEach(store.addReport);
+    saved.bans.forEach(store.setBan);
+  }
+
+  function write() {
+    if (writeTimer) {
+      clearTimeout(writeTimer);
+      writeTimer = null;
+    }
+
+    const snapshot = {
+      version: FILE_FORMAT_VERSION,
+      reports: store.listReports(),
+      bans: store.listBans(),
+    };
+    const tempPath = `${filePath}.tmp`;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(snapshot));
+    fs.renameSync(tempPath, filePath);
+  }
+
+  function scheduleWrite() {
+    if (!writeTimer) {
+      writeTimer = setTimeout(() => {
+        try {
+          write();
+        } catch (error) {
+          logger.error('Failed to save state', { filePath, error });
+        }
+      }, writeDelayMs);
+    }
+  }
+
+  // Persist after every change to reports or bans
+  const persisted = (fn) => (...args) => {
+    const result = fn(...args);
+    scheduleWrite();
+    return result;
+  };
+
+  return {
+    ...store,
+    addReport: persisted(store.addReport),
+    deleteReportsBefore(cutoff) {
+      const removed = store.deleteReportsBefore(cutoff);
+      if (removed > 0) {
+        scheduleWrite();
+      }
+      return removed;
+    },
+    setBan: persisted(store.setBan),
+    deleteBan: persisted(store.deleteBan),
+    flush() {
+      if (writeTimer) {
+        write();
+      }
+    },
+  };
+}
+
+// File-backed store when a path is given, in-memory otherwise
+function createStateStore({ filePath, logger } = {}) {
+  return filePath ? createFileStore({ filePath, logger }) : createMemoryStore();
+}
+
+module.exports = {
+  createStateStore,
+  createMemoryStore,
+  createFileStore,
+};
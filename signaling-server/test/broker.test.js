@@ -0,0 +1,102 @@
+const { test, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { createLocalBroker, createRedisBroker } = require('../broker');
+const { createLogger } = require('../logger');
+const { startRespServer } = require('./respServer');
+const { eventually } = require('./harness');
+
+const silentLogger = createLogger({ write: () => {} });
+
+// Collect what a handler receives
+function inbox() {
+  const received = [];
+  const handler = (message) => received.push(message);
+  return { received, handler };
+}
+
+test('the local broker hands every subscriber its own copy', async () => {
+  const broker = createLocalBroker();
+  const first = inbox();
+  const second = inbox();
+  broker.subscribe('chan', first.handler);
+  const unsubscribe = broker.subscribe('chan', second.handler);
+
+  broker.publish('chan', { n: 1 });
+  await eventually(() => assert.equal(second.received.length, 1));
+  assert.deepEqual(first.received, [{ n: 1 }]);
+  assert.notEqual(first.received[0], second.received[0]);
+
+  unsubscribe();
+  broker.publish('chan', { n: 2 });
+  await eventually(() => assert.equal(first.received.length, 2));
+  assert.equal(second.received.length, 1);
+});
+
+let resp;
+let brokers;
+
+beforeEach(async () => {
+  resp = await startRespServer();
+  brokers = [];
+});
+
+afterEach(async () => {
+  for (const broker of brokers) {
+    broker.close();
+  }
+  await resp.close();
+});
+
+function redisBroker() {
+  const broker = createRedisBroker({ url: resp.url, logger: silentLogger });
+  brokers.push(broker);
+  return broker;
+}
+
+test('the Redis broker delivers between nodes', async () => {
+  const sender = redisBroker();
+  const receiver = redisBroker();
+  const { received, handler } = inbox();
+  receiver.subscribe('chan', handler);
+  await eventually(() => assert.equal(resp.subscriberCount('chan'), 1));
+
+  sender.publish('chan', { hello: 'world' });
+  await eventually(() => assert.deepEqual(received, [{ hello: 'world' }]));
+});
+
+test('the Redis broker reconnects and resubscribes after a drop', async () => {
+  const sender = redisBroker();
+  const receiver = redisBroker();
+  const { received, handler } = inbox();
+  receiver.subscribe('first', handler);
+  receiver.subscribe('second', handler);
+  await eventually(() => assert.equal(resp.subscriberCount('second'), 1));
+
+  resp.dropConnections();
+  // Two brokers, each with a publisher and a subscriber connection
+  await eventually(() => assert.equal(resp.connectionCount(), 8));
+  await eventually(() => {
+    assert.equal(resp.subscriberCount('first'), 1);
+    assert.equal(resp.subscriberCount('second'), 1);
+  });
+
+  sender.publish('first', { n: 1 });
+  sender.publish('second', { n: 2 });
+  await eventually(() => assert.deepEqual(received, [{ n: 1 }, { n: 2 }]));
+});
+
+test('the Redis broker recovers from a reply it cannot parse', async () => {
+  const sender = redisBroker();
+  const receiver = redisBroker();
+  const { received, handler } = inbox();
+  receiver.subscribe('chan', handler);
+  await eventually(() => assert.equal(resp.subscriberCount('chan'), 1));
+
+  resp.sendGarbage();
+  // The connections are reset rather than the process crashing
+  await eventually(() => assert.equal(resp.connectionCount(), 8));
+  await eventually(() => assert.equal(resp.subscriberCount('chan'), 1));
+
+  sender.publish('chan', { after: true });
+  await eventually(() => assert.deepEqual(received, [{ after: true }]));
+});
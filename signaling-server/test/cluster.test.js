@@ -0,0 +1,95 @@
+const { test, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { CLOSE_CODES, ERROR_CODES } = require('../../shared/signalingProtocol');
+const { startServer, connectClient, registeredClient, eventually } = require('./harness');
+const { startRespServer } = require('./respServer');
+
+let resp;
+let servers;
+
+// Start a node of a cluster sharing the RESP stand-in
+async function startNode(nodeId, { coordinator = false } = {}) {
+  const server = await startServer({
+    REDIS_URL: resp.url,
+    NODE_ID: nodeId,
+    MATCH_COORDINATOR: coordinator ? '1' : '0',
+  });
+  servers.push(server);
+  return server;
+}
+
+beforeEach(async () => {
+  resp = await startRespServer();
+  servers = [];
+});
+
+afterEach(async () => {
+  await Promise.all(servers.map((server) => server.stop()));
+  await resp.close();
+});
+
+test('matches users on different nodes and forwards their signaling', async () => {
+  const nodeA = await startNode('A', { coordinator: true });
+  const nodeB = await startNode('B');
+  const alice = await registeredClient(nodeA);
+  const bob = await registeredClient(nodeB);
+
+  await alice.findMatch();
+  await bob.findMatch();
+  const [aliceMatch, bobMatch] = await Promise.all([alice.next('match-found'), bob.next('match-found')]);
+  assert.equal(aliceMatch.roomId, bobMatch.roomId);
+  assert.equal(aliceMatch.peerId, bob.socketId);
+
+  alice.send('offer', { offer: { type: 'offer', sdp: 'v=0' } });
+  assert.equal((await bob.next('offer')).from, alice.socketId);
+
+  bob.send('leave-room', { roomId: bobMatch.roomId });
+  assert.deepEqual(await alice.next('user-left'), { from: bob.socketId });
+});
+
+test('a ban issued on one node is enforced on the others', async () => {
+  const nodeA = await startNode('A', { coordinator: true });
+  const nodeB = await startNode('B');
+  const client = await registeredClient(nodeA);
+
+  await nodeA.admin('POST', `/sockets/${client.socketId}/ban`, { reason: 'abuse' });
+  assert.equal((await client.closed).code, CLOSE_CODES.BANNED);
+  await eventually(async () => {
+    const { body } = await nodeB.admin('GET', '/bans');
+    assert.equal(body.count, 1);
+  });
+
+  const elsewhere = await connectClient(nodeB);
+  elsewhere.send('register-user', { token: client.token, userSession: { isReady: true } });
+  assert.equal((await elsewhere.next('room-error')).code, ERROR_CODES.BANNED);
+  assert.equal((await elsewhere.closed).code, CLOSE_CODES.BANNED);
+});
+
+test('a node started later takes over existing bans', async () => {
+  const nodeA = await startNode('A', { coordinator: true });
+  const client = await registeredClient(nodeA);
+  await nodeA.admin('POST', `/sockets/${client.socketId}/ban`, { reason: 'abuse' });
+
+  const nodeB = await startNode('B');
+  await eventually(async () => {
+    const { body } = await nodeB.admin('GET', '/bans');
+    assert.deepEqual(body.bans.map((ban) => ban.userId), [client.userId]);
+  });
+});
+
+test('a restarted coordinator picks up users already waiting', async () => {
+  const coordinator = await startNode('A', { coordinator: true });
+  const nodeB = await startNode('B');
+
+  // Nothing in common, so they wait until the coordinator goes away
+  const waiting = await registeredClient(nodeB);
+  await waiting.findMatch({ interests: ['chess'] });
+  await coordinator.stop();
+
+  const restarted = await startNode('C', { coordinator: true });
+  const newcomer = await registeredClient(restarted);
+  await newcomer.findMatch({ interests: ['chess'] });
+
+  assert.equal((await newcomer.next('match-found')).peerId, waiting.socketId);
+  assert.equal((await waiting.next('match-found')).peerId, newcomer.socketId);
+});
@@ -0,0 +1,149 @@
+const { test, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { CLOSE_CODES, ERROR_CODES, PROTOCOL_VERSION } = require('../../shared/signalingProtocol');
+const { startServer, connectClient, registeredClient } = require('./harness');
+
+let server;
+
+beforeEach(async () => {
+  server = await startServer();
+});
+
+afterEach(async () => {
+  await server.stop();
+});
+
+test('rejects a message that is not JSON', async () => {
+  const client = await connectClient(server);
+
+  client.sendRaw('not json');
+  const error = await client.next('protocol-error');
+  assert.equal(error.code, ERROR_CODES.INVALID_MESSAGE);
+});
+
+test('rejects an unknown message type and fails its ack', async () => {
+  const client = await registeredClient(server);
+
+  client.sendRaw({ v: PROTOCOL_VERSION, type: 'teleport', data: {}, id: 'x1' });
+  assert.equal((await client.next('protocol-error')).code, ERROR_CODES.UNKNOWN_TYPE);
+  const ack = await client.next('ack');
+  assert.equal(ack.id, 'x1');
+  assert.equal(ack.ok, false);
+  assert.equal(ack.code, ERROR_CODES.UNKNOWN_TYPE);
+});
+
+test('rejects an invalid payload without forwarding it', async () => {
+  const caller = await registeredClient(server);
+  const callee = await registeredClient(server);
+  await caller.findMatch();
+  await callee.findMatch();
+  await caller.next('match-found');
+
+  const ack = await caller.request('offer', { offer: { type: 'offer' } });
+  assert.equal(ack.ok, false);
+  assert.equal(ack.code, ERROR_CODES.INVALID_MESSAGE);
+  assert.equal((await caller.next('protocol-error')).code, ERROR_CODES.INVALID_MESSAGE);
+  assert.deepEqual(await callee.collect('offer', 200), []);
+});
+
+test('closes connections speaking another protocol version', async () => {
+  const client = await connectClient(server);
+
+  client.sendRaw({ v: PROTOCOL_VERSION + 1, type: 'ping', data: {} });
+  assert.equal((await client.next('protocol-error')).code, ERROR_CODES.UNSUPPORTED_VERSION);
+  assert.equal((await client.closed).code, CLOSE_CODES.UNSUPPORTED_VERSION);
+});
+
+test('refuses registration with an invalid token', async () => {
+  const client = await connectClient(server);
+
+  client.send('register-user', { token: 'forged', userSession: {} });
+  assert.equal((await client.next('protocol-error')).code, ERROR_CODES.UNAUTHORIZED);
+  assert.equal((await client.closed).code, CLOSE_CODES.UNAUTHORIZED);
+});
+
+test('refuses find-match before registering', async () => {
+  const client = await connectClient(server);
+
+  const ack = await client.request('find-match', {});
+  assert.equal(ack.ok, false);
+  assert.equal(ack.code, ERROR_CODES.NOT_REGISTERED);
+  const error = await client.next('room-error');
+  assert.equal(error.code, ERROR_CODES.NOT_REGISTERED);
+
+  const { body } = await server.admin('GET', '/queue');
+  assert.equal(body.count, 0);
+});
+
+test('rate limits a client that sends too often', async () => {
+  const client = await registeredClient(server);
+
+  const acks = [];
+  for (let i = 0; i < 3; i++) {
+    acks.push(await client.request('get-stats', {}));
+  }
+
+  assert.deepEqual(acks.map((ack) => ack.ok), [true, true, false]);
+  assert.equal(acks[2].code, ERROR_CODES.RATE_LIMITED);
+  const limited = await client.next('rate-limited');
+  assert.equal(limited.type, 'get-stats');
+  assert.ok(limited.retryAfterMs > 0);
+});
+
+test('refuses find-match while matchmaking is paused', async () => {
+  const client = await registeredClient(server);
+  await server.admin('PUT', '/matchmaking', { enabled: false });
+
+  const ack = await client.request('find-match', {});
+  assert.equal(ack.ok, false);
+  assert.equal(ack.code, ERROR_CODES.MATCHMAKING_DISABLED);
+  const error = await client.next('room-error');
+  assert.equal(error.code, ERROR_CODES.MATCHMAKING_DISABLED);
+  assert.ok(error.retryAfterMs > 0);
+});
+
+test('rejects room phases that clients may not report', async () => {
+  const client = await registeredClient(server);
+
+  const ack = await client.request('room-phase', { roomId: 'room-1', phase: 'ended' });
+  assert.equal(ack.ok, false);
+  assert.equal(ack.code, ERROR_CODES.INVALID_MESSAGE);
+});
+
+test('rejects malformed preferences and keeps matching others', async () => {
+  const waiting = await registeredClient(server);
+  const sender = await registeredClient(server);
+  await waiting.findMatch({ interests: ['photo'] });
+
+  const ack = await sender.request('find-match', { preferences: { interests: 'photo' } });
+  assert.equal(ack.ok, false);
+  assert.equal(ack.code, ERROR_CODES.INVALID_MESSAGE);
+
+  const health = await fetch(`${server.baseUrl}/health`);
+  assert.equal(health.status, 200);
+
+  await sender.findMatch({ interests: ['photo'] });
+  assert.equal((await sender.next('match-found')).peerId, waiting.socketId);
+});
+
+test('closes a banned user who registers again with their token', async () => {
+  const client = await registeredClient(server);
+  const { status } = await server.admin('POST', `/sockets/${client.socketId}/ban`, { reason: 'abuse' });
+  assert.equal(status, 200);
+  assert.equal((await client.closed).code, CLOSE_CODES.BANNED);
+
+  const returning = await connectClient(server);
+  returning.send('register-user', { token: client.token, userSession: { isReady: true } });
+  assert.equal((await returning.next('room-error')).code, ERROR_CODES.BANNED);
+  assert.equal((await returning.closed).code, CLOSE_CODES.BANNED);
+});
+
+test('refuses admin requests without the admin token', async () => {
+  const wrong = await fetch(`${server.baseUrl}/admin/queue`, { headers: { authorization: 'Bearer nope' } });
+  assert.equal(wrong.status, 401);
+  const missing = await fetch(`${server.baseUrl}/admin/queue`);
+  assert.equal(missing.status, 401);
+
+  const { status } = await server.admin('GET', '/queue');
+  assert.equal(status, 200);
+});
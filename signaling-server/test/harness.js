@@ -0,0 +1,289 @@
+// Integration test harness.
+//
+// `startServer()` boots server.js in a child process on a free port, with an
+// in-memory store and no broker unless the test passes REDIS_URL, and
+// resolves once it is listening.
+// `connectClient()` opens a scripted WebSocket client against it. Clients
+// queue every message they receive, and `next(type)` takes the oldest one of
+// a type that has not been taken yet, waiting for it if needed. That lets a
+// test assert on what arrived without racing the server.
+
+const { spawn } = require('child_process');
+const { EventEmitter } = require('events');
+const path = require('path');
+const WebSocket = require('ws');
+const { createEnvelope, SERVER_MESSAGES } = require('../../shared/signalingProtocol');
+
+const SERVER_PATH = path.join(__dirname, '..', 'server.js');
+const ADMIN_TOKEN = 'test-admin-token';
+const START_TIMEOUT = 10000;
+const STOP_TIMEOUT = 5000;
+const DEFAULT_WAIT = 2000;
+
+// Defaults that keep tests fast and offline; a test can override any of them
+const TEST_ENV = {
+  PORT: '0',
+  AUTH_SECRET: 'test-auth-secret',
+  ADMIN_TOKEN,
+  RESUME_GRACE_MS: '300',
+  LOG_LEVEL: 'info',
+};
+
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Start a server process. Resolves with its address, the log entries it has
+// written so far and a `stop()` that shuts it down.
+function startServer(env = {}) {
+  const childEnv = { ...process.env, ...TEST_ENV };
+  // Never reach for a real Redis or state file unless a test asks for one
+  delete childEnv.REDIS_URL;
+  delete childEnv.STATE_FILE;
+  Object.assign(childEnv, env);
+
+  const child = spawn(process.execPath, [SERVER_PATH], {
+    env: childEnv,
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  const logs = [];
+  const logEvents = new EventEmitter();
+  const exited = new Promise((resolve) => child.once('exit', resolve));
+
+  function waitForLog(msg, timeoutMs) {
+    return new Promise((resolve, reject) => {
+      const found = logs.find((entry) => entry.msg === msg);
+      if (found) {
+        resolve(found);
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        logEvents.off('log', onLog);
+        reject(new Error(`Server did not log "${msg}" within ${timeoutMs}ms`));
+      }, timeoutMs);
+      function onLog(entry) {
+        if (entry.msg === msg) {
+          clearTimeout(timer);
+          logEvents.off('log', onLog);
+          resolve(entry);
+        }
+      }
+      logEvents.on('log', onLog);
+    });
+  }
+
+  let buffered = '';
+  child.stdout.setEncoding('utf8');
+  child.stdout.on('data', (chunk) => {
+    buffered += chunk;
+    const lines = buffered.split('\n');
+    buffered = lines.pop();
+    for (const line of lines) {
+      if (!line) continue;
+      try {
+        const entry = JSON.parse(line);
+        logs.push(entry);
+        logEvents.emit('log', entry);
+      } catch {
+        logs.push({ msg: line });
+      }
+    }
+  });
+
+  let stderr = '';
+  child.stderr.setEncoding('utf8');
+  child.stderr.on('data', (chunk) => {
+    stderr += chunk;
+  });
+
+  const listening = Promise.race([
+    waitForLog('Signaling server listening', START_TIMEOUT),
+    exited.then((code) => {
+      throw new Error(`Server exited with code ${code} before listening:\n${stderr}`);
+    }),
+  ]);
+
+  return listening.then(({ port }) => {
+    const baseUrl = `http://127.0.0.1:${port}`;
+
+    return {
+      port,
+      baseUrl,
+      wsUrl: `ws://127.0.0.1:${port}/ws`,
+      logs,
+
+      // Call the admin API, resolving with the parsed JSON body
+      async admin(method, route, body) {
+        const res = await fetch(`${baseUrl}/admin${route}`, {
+          method,
+          headers: {
+            authorization: `Bearer ${ADMIN_TOKEN}`,
+            'content-type': 'application/json',
+          },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        });
+        return { status: res.status, body: await res.json() };
+      },
+
+      // The first signal starts a drain, the second one exits straight away
+      async stop() {
+        if (child.exitCode !== null) return;
+
+        child.kill('SIGTERM');
+        await waitForLog('Draining', STOP_TIMEOUT).catch(() => {});
+        child.kill('SIGTERM');
+
+        const timer = setTimeout(() => child.kill('SIGKILL'), STOP_TIMEOUT);
+        await exited;
+        clearTimeout(timer);
+      },
+    };
+  });
+}
+
+// Open a client connection. Resolves once the socket is open.
+function connectClient(server) {
+  const socket = new WebSocket(server.wsUrl);
+  const inbox = [];
+  const waiters = [];
+  let nextId = 1;
+
+  // Hand a message to the first waiter that wants it, or queue it
+  function deliver(message) {
+    const index = waiters.findIndex((waiter) => waiter.matches(message));
+    if (index === -1) {
+      inbox.push(message);
+      return;
+    }
+
+    const [waiter] = waiters.splice(index, 1);
+    clearTimeout(waiter.timer);
+    waiter.resolve(message);
+  }
+
+  socket.on('message', (raw) => deliver(JSON.parse(raw.toString())));
+
+  const closed = new Promise((resolve) => {
+    socket.once('close', (code, reason) => resolve({ code, reason: reason.toString() }));
+  });
+
+  const client = {
+    socket,
+    closed,
+    token: null,
+    socketId: null,
+    userId: null,
+    resumeToken: null,
+
+    // Send a message in a protocol envelope
+    send(type, data, id) {
+      socket.send(JSON.stringify(createEnvelope(type, data, id)));
+    },
+
+    // Send something exactly as given, for malformed input
+    sendRaw(envelope) {
+      socket.send(typeof envelope === 'string' ? envelope : JSON.stringify(envelope));
+    },
+
+    // Send a message that asks for an ack and resolve with the ack payload
+    request(type, data) {
+      const id = `req-${nextId++}`;
+      client.send(type, data, id);
+      return client.next(SERVER_MESSAGES.ACK, { where: (ack) => ack.id === id });
+    },
+
+    // Take the oldest unread message of a type, waiting up to `timeoutMs`
+    next(type, { where = () => true, timeoutMs = DEFAULT_WAIT } = {}) {
+      const matches = (message) => message.type === type && where(message.data);
+
+      const index = inbox.findIndex(matches);
+      if (index !== -1) {
+        return Promise.resolve(inbox.splice(index, 1)[0].data);
+      }
+
+      return new Promise((resolve, reject) => {
+        const waiter = {
+          matches,
+          resolve: (message) => resolve(message.data),
+          timer: setTimeout(() => {
+            waiters.splice(waiters.indexOf(waiter), 1);
+            reject(new Error(`No ${type} message within ${timeoutMs}ms`));
+          }, timeoutMs),
+        };
+        waiters.push(waiter);
+      });
+    },
+
+    // Resolve with every unread message of a type that arrives within `ms`
+    async collect(type, ms) {
+      await delay(ms);
+      const collected = inbox.filter((message) => message.type === type);
+      for (const message of collected) {
+        inbox.splice(inbox.indexOf(message), 1);
+      }
+      return collected.map((message) => message.data);
+    },
+
+    // Register with a token, fetching an anonymous one unless given
+    async register(userSession = {}, token = null) {
+      if (!token) {
+        const res = await fetch(`${server.baseUrl}/auth/anonymous`, { method: 'POST' });
+        ({ token } = (await res.json()).data);
+      }
+      client.token = token;
+      client.send('register-user', { token, userSession: { isReady: true, ...userSession } });
+
+      const registration = await client.next(SERVER_MESSAGES.REGISTRATION_SUCCESS);
+      client.socketId = registration.socketId;
+      client.userId = registration.userId;
+      client.resumeToken = registration.resumeToken;
+      return registration;
+    },
+
+    // Start searching and wait until the server has queued us
+    async findMatch(preferences) {
+      client.send('find-match', preferences ? { preferences } : {});
+      return client.next(SERVER_MESSAGES.SEARCH_STARTED);
+    },
+
+    close() {
+      socket.close();
+      return closed;
+    },
+  };
+
+  return new Promise((resolve, reject) => {
+    socket.once('open', () => resolve(client));
+    socket.once('error', reject);
+  });
+}
+
+// Retry an async assertion until it passes, for state the server updates
+// after the client has already moved on (such as handling a socket close)
+async function eventually(assertion, timeoutMs = DEFAULT_WAIT) {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    try {
+      return await assertion();
+    } catch (error) {
+      if (Date.now() >= deadline) throw error;
+      await delay(50);
+    }
+  }
+}
+
+// Connect and register a client in one step
+async function registeredClient(server, userSession) {
+  const client = await connectClient(server);
+  await client.register(userSession);
+  return client;
+}
+
+module.exports = {
+  startServer,
+  connectClient,
+  registeredClient,
+  eventually,
+  delay,
+  ADMIN_TOKEN,
+};
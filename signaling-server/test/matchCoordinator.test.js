@@ -0,0 +1,59 @@
+const { test, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { createLocalBroker } = require('../broker');
+const { createMatchCoordinator, nodeChannel, MATCHMAKING_CHANNEL } = require('../matchCoordinator');
+const { eventually } = require('./harness');
+
+let broker;
+let coordinator;
+let matches;
+
+beforeEach(() => {
+  broker = createLocalBroker();
+  coordinator = createMatchCoordinator({ broker });
+  matches = [];
+  broker.subscribe(nodeChannel('A'), (match) => matches.push(match));
+});
+
+afterEach(() => {
+  coordinator.close();
+  broker.close();
+});
+
+// Queue both users on node A and wait for the coordinator to pair them
+async function matchPair() {
+  broker.publish(MATCHMAKING_CHANNEL, { kind: 'enqueue', socketId: 'A:1', userId: 'alice', preferences: {} });
+  broker.publish(MATCHMAKING_CHANNEL, { kind: 'enqueue', socketId: 'A:2', userId: 'bob', preferences: {} });
+  await eventually(() => assert.equal(matches.length, 1));
+  return matches.shift();
+}
+
+// Queue both users again and report whether they were paired
+async function matchedAgain() {
+  broker.publish(MATCHMAKING_CHANNEL, { kind: 'enqueue', socketId: 'A:3', userId: 'alice', preferences: {} });
+  broker.publish(MATCHMAKING_CHANNEL, { kind: 'enqueue', socketId: 'A:4', userId: 'bob', preferences: {} });
+  await eventually(() => assert.equal(coordinator.size() + matches.length * 2, 2));
+  return matches.length > 0;
+}
+
+test('remembers a pair once both users are confirmed in their room', async () => {
+  const { roomId, users } = await matchPair();
+  broker.publish(MATCHMAKING_CHANNEL, { kind: 'confirm', roomId, socketIds: users.map((user) => user.socketId) });
+
+  assert.equal(await matchedAgain(), false);
+});
+
+test('forgets a pair whose room was abandoned before it was created', async () => {
+  const { roomId } = await matchPair();
+  broker.publish(MATCHMAKING_CHANNEL, { kind: 'abandon', roomId });
+
+  assert.equal(await matchedAgain(), true);
+});
+
+test('needs the nodes of both users to confirm', async () => {
+  const { roomId } = await matchPair();
+  broker.publish(MATCHMAKING_CHANNEL, { kind: 'confirm', roomId, socketIds: ['A:1'] });
+  broker.publish(MATCHMAKING_CHANNEL, { kind: 'abandon', roomId });
+
+  assert.equal(await matchedAgain(), true);
+});
@@ -0,0 +1,128 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { createMatchmaker, scorePair, DEFAULT_TIERS } = require('../matchmaker');
+
+// A clock the test moves by hand
+function createClock() {
+  let time = 0;
+  return {
+    now: () => time,
+    set(next) {
+      time = next;
+    },
+  };
+}
+
+function setup(options = {}) {
+  const clock = createClock();
+  const matchmaker = createMatchmaker({ now: clock.now, ...options });
+  return { clock, matchmaker };
+}
+
+test('the default tiers widen at 10 and 20 seconds', () => {
+  assert.deepEqual(DEFAULT_TIERS.map((tier) => tier.after), [0, 10000, 20000]);
+});
+
+test('matches users without preferences straight away', () => {
+  const { matchmaker } = setup();
+
+  matchmaker.enqueue('a');
+  matchmaker.enqueue('b');
+
+  assert.equal(matchmaker.findMatchFor('b').partnerId, 'a');
+  assert.equal(matchmaker.size(), 0);
+});
+
+test('matches on a shared interest straight away', () => {
+  const { matchmaker } = setup();
+
+  matchmaker.enqueue('a', { interests: ['Music'] });
+  matchmaker.enqueue('b', { interests: ['music '] });
+
+  const match = matchmaker.findMatchFor('b');
+  assert.equal(match.partnerId, 'a');
+  assert.equal(match.reason.score, 3);
+  assert.equal(match.reason.sharedInterests.length, 1);
+});
+
+test('accepts a shared language alone once the second tier kicks in', () => {
+  const { clock, matchmaker } = setup();
+
+  matchmaker.enqueue('a', { interests: ['music'], language: 'th' });
+  matchmaker.enqueue('b', { interests: ['sport'], language: 'th' });
+  assert.equal(matchmaker.findMatchFor('b'), null);
+
+  clock.set(9999);
+  assert.deepEqual(matchmaker.matchWaiting(), []);
+
+  clock.set(10000);
+  const [pair] = matchmaker.matchWaiting();
+  assert.deepEqual([pair.first, pair.second], ['a', 'b']);
+  assert.equal(pair.reason.score, 2);
+});
+
+test('accepts any partner once the last tier kicks in', () => {
+  const { clock, matchmaker } = setup();
+
+  matchmaker.enqueue('a', { interests: ['music'] });
+  matchmaker.enqueue('b', { interests: ['sport'] });
+
+  clock.set(19999);
+  assert.deepEqual(matchmaker.matchWaiting(), []);
+
+  clock.set(20000);
+  assert.equal(matchmaker.matchWaiting().length, 1);
+});
+
+test('widens by the longer wait of the pair', () => {
+  const { clock, matchmaker } = setup();
+
+  matchmaker.enqueue('a', { interests: ['music'], language: 'th' });
+  clock.set(15000);
+  matchmaker.enqueue('b', { interests: ['sport'], language: 'th' });
+
+  assert.equal(matchmaker.findMatchFor('b').partnerId, 'a');
+});
+
+test('prefers the higher score, then the longer wait', () => {
+  const { clock, matchmaker } = setup();
+
+  matchmaker.enqueue('old', { interests: ['music'] });
+  clock.set(1000);
+  matchmaker.enqueue('better', { interests: ['music', 'film'] });
+  clock.set(2000);
+  matchmaker.enqueue('tied', { interests: ['music'] });
+  assert.equal(matchmaker.findMatchFor('tied').partnerId, 'old');
+
+  clock.set(3000);
+  matchmaker.enqueue('newcomer', { interests: ['music', 'film'] });
+  assert.equal(matchmaker.findMatchFor('newcomer').partnerId, 'better');
+});
+
+test('never pairs users that canMatch vetoes, however long they wait', () => {
+  const { clock, matchmaker } = setup({ canMatch: () => false });
+
+  matchmaker.enqueue('a');
+  matchmaker.enqueue('b');
+
+  clock.set(60000);
+  assert.deepEqual(matchmaker.matchWaiting(), []);
+  assert.equal(matchmaker.size(), 2);
+});
+
+test('custom tiers replace the defaults', () => {
+  const { clock, matchmaker } = setup({ tiers: [{ after: 0, minScore: 3 }, { after: 500, minScore: 0 }] });
+
+  matchmaker.enqueue('a', { interests: ['music'] });
+  matchmaker.enqueue('b', { interests: ['sport'] });
+  assert.deepEqual(matchmaker.matchWaiting(), []);
+
+  clock.set(500);
+  assert.equal(matchmaker.matchWaiting().length, 1);
+});
+
+test('scores malformed preferences as having nothing in common', () => {
+  const reason = scorePair({ interests: 'photo', language: 5 }, { interests: ['photo'], language: 'th' });
+  assert.equal(reason.score, 0);
+  assert.deepEqual(reason.sharedInterests, []);
+});
@@ -0,0 +1,146 @@
+const { test, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { startServer, connectClient, registeredClient } = require('./harness');
+
+let server;
+
+beforeEach(async () => {
+  server = await startServer();
+});
+
+afterEach(async () => {
+  await server.stop();
+});
+
+test('pairs two waiting users into one room', async () => {
+  const alice = await registeredClient(server);
+  const bob = await registeredClient(server);
+
+  await alice.findMatch();
+  await bob.findMatch();
+  const [aliceMatch, bobMatch] = await Promise.all([alice.next('match-found'), bob.next('match-found')]);
+
+  assert.equal(aliceMatch.roomId, bobMatch.roomId);
+  assert.equal(aliceMatch.peerId, bob.socketId);
+  assert.equal(bobMatch.peerId, alice.socketId);
+  assert.equal(aliceMatch.partner.userId, bob.userId);
+
+  const { body } = await server.admin('GET', '/queue');
+  assert.equal(body.count, 0);
+});
+
+test('prefers the longest-waiting user among equally good partners', async () => {
+  const first = await registeredClient(server);
+  const second = await registeredClient(server);
+  const newcomer = await registeredClient(server);
+
+  // Nothing in common, so these two keep waiting
+  await first.findMatch({ interests: ['music'] });
+  await second.findMatch({ interests: ['sport'] });
+
+  await newcomer.findMatch({ interests: ['music', 'sport'] });
+  const match = await newcomer.next('match-found');
+
+  assert.equal(match.peerId, first.socketId);
+  assert.deepEqual(match.reason.sharedInterests, ['music']);
+  assert.deepEqual(await second.collect('match-found', 200), []);
+
+  const { body } = await server.admin('GET', '/queue');
+  assert.deepEqual(body.waiting.map((entry) => entry.socketId), [second.socketId]);
+});
+
+test('prefers the better partner over the longer-waiting one', async () => {
+  const first = await registeredClient(server);
+  const second = await registeredClient(server);
+  const newcomer = await registeredClient(server);
+
+  await first.findMatch({ interests: ['music'] });
+  await second.findMatch({ interests: ['sport', 'film'] });
+
+  await newcomer.findMatch({ interests: ['music', 'sport', 'film'] });
+  const match = await newcomer.next('match-found');
+
+  assert.equal(match.peerId, second.socketId);
+  assert.equal(match.reason.score, 6);
+  assert.deepEqual(await first.collect('match-found', 200), []);
+});
+
+test('does not pair two users again right after they parted', async () => {
+  const alice = await registeredClient(server);
+  const bob = await registeredClient(server);
+  const carol = await registeredClient(server);
+
+  await alice.findMatch();
+  await bob.findMatch();
+  const { roomId } = await alice.next('match-found');
+  await bob.next('match-found');
+
+  alice.send('leave-room', { roomId });
+  await bob.next('user-left');
+
+  await alice.findMatch();
+  await bob.findMatch();
+  assert.deepEqual(await alice.collect('match-found', 200), []);
+  assert.deepEqual(await bob.collect('match-found', 0), []);
+
+  await carol.findMatch();
+  const match = await carol.next('match-found');
+  assert.equal(match.peerId, alice.socketId);
+});
+
+test('ignores a second find-match while already waiting', async () => {
+  const alice = await registeredClient(server);
+
+  await alice.findMatch();
+  alice.send('find-match', {});
+
+  assert.deepEqual(await alice.collect('search-started', 200), []);
+  const { body } = await server.admin('GET', '/queue');
+  assert.equal(body.count, 1);
+});
+
+// Leave `count` rooms as the user holding `token`, with a new partner each
+// time since recent partners are not rematched. Each round reconnects, so the
+// per-connection find-match limit never kicks in; skips are tracked by user.
+async function leaveRooms(token, count, { connected }) {
+  for (let i = 0; i < count; i++) {
+    const client = await connectClient(server);
+    await client.register({}, token);
+    const partner = await registeredClient(server);
+    await client.findMatch();
+    await partner.findMatch();
+    const { roomId } = await client.next('match-found');
+    if (connected) {
+      await client.request('room-phase', { roomId, phase: 'connected' });
+    }
+    client.send('leave-room', { roomId });
+    await partner.next('user-left');
+    client.close();
+    await client.closed;
+  }
+}
+
+// Connect again as the user holding `token` and ask for a match
+async function searchAgain(token) {
+  const client = await connectClient(server);
+  await client.register({}, token);
+  return { client, ack: await client.request('find-match', {}) };
+}
+
+test('puts users who skip too fast on a cooldown', async () => {
+  const { token } = await registeredClient(server);
+  await leaveRooms(token, 6, { connected: true });
+
+  const { client, ack } = await searchAgain(token);
+  assert.equal(ack.ok, false);
+  assert.equal((await client.next('rate-limited')).type, 'find-match');
+});
+
+test('does not count leaving a call that never connected as a skip', async () => {
+  const { token } = await registeredClient(server);
+  await leaveRooms(token, 6, { connected: false });
+
+  const { client, ack } = await searchAgain(token);
+  assert.equal(ack.ok, true);
+  assert.deepEqual(await client.collect('rate-limited', 0), []);
+});
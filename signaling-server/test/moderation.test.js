@@ -0,0 +1,76 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { createModeration } = require('../moderation');
+const { createFileStore } = require('../stateStore');
+const { createLogger } = require('../logger');
+
+const HOUR = 60 * 60 * 1000;
+
+// A clock the test moves by hand
+function createClock() {
+  let time = 0;
+  return {
+    now: () => time,
+    advance(ms) {
+      time += ms;
+    },
+  };
+}
+
+function report(moderation, reporterId, reportedId = 'target') {
+  return moderation.addReport({ reporterId, reportedId, reason: 'spam' });
+}
+
+test('prune drops reports older than the retention and keeps the rest', () => {
+  const clock = createClock();
+  const moderation = createModeration({ now: clock.now, reportRetentionMs: 10 * HOUR });
+
+  report(moderation, 'a');
+  clock.advance(6 * HOUR);
+  report(moderation, 'b', 'other');
+  clock.advance(5 * HOUR);
+  moderation.prune();
+
+  assert.deepEqual(moderation.listReports().map((kept) => kept.reporterId), ['b']);
+  assert.deepEqual(moderation.listReports({ userId: 'target' }), []);
+  assert.equal(moderation.listReports({ userId: 'other' }).length, 1);
+});
+
+test('prune drops expired bans', () => {
+  const clock = createClock();
+  const moderation = createModeration({ now: clock.now });
+  moderation.ban({ userId: 'target', reason: 'manual', durationMs: HOUR });
+
+  clock.advance(HOUR);
+  moderation.prune();
+  assert.deepEqual(moderation.listBans(), []);
+});
+
+test('ignores reports from other nodes that are already past the retention', () => {
+  const clock = createClock();
+  const moderation = createModeration({ now: clock.now, reportRetentionMs: HOUR });
+  clock.advance(2 * HOUR);
+
+  moderation.importReport({ id: 'old', reporterId: 'a', reportedId: 'target', reason: 'spam', createdAt: 0 });
+  assert.deepEqual(moderation.listReports(), []);
+});
+
+test('the file store no longer saves pruned reports', () => {
+  const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'moderation-')), 'state.json');
+  const clock = createClock();
+  const store = createFileStore({ filePath, logger: createLogger({ write: () => {} }) });
+  const moderation = createModeration({ store, now: clock.now, reportRetentionMs: HOUR });
+
+  report(moderation, 'a');
+  clock.advance(2 * HOUR);
+  report(moderation, 'b');
+  moderation.prune();
+  store.flush();
+
+  const saved = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  assert.deepEqual(saved.reports.map((kept) => kept.reporterId), ['b']);
+  fs.rmSync(path.dirname(filePath), { recursive: true });
+});
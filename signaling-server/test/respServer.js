@@ -0,0 +1,104 @@
+// Small stand-in for a Redis server, speaking just enough RESP for the
+// broker: SUBSCRIBE, UNSUBSCRIBE and PUBLISH, with +OK for anything else.
+// Tests can drop every connection or send garbage to exercise recovery.
+
+const net = require('net');
+const { parseResp } = require('../broker');
+
+const bulk = (value) => `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+
+function startRespServer() {
+  const channels = new Map(); // channel -> Set<socket>
+  const sockets = new Set();
+  let accepted = 0;
+
+  function unsubscribe(socket, channel) {
+    channels.get(channel)?.delete(socket);
+  }
+
+  function handleCommand(socket, [command, ...args]) {
+    switch (command) {
+      case 'SUBSCRIBE':
+        for (const channel of args) {
+          if (!channels.has(channel)) channels.set(channel, new Set());
+          channels.get(channel).add(socket);
+          socket.write(`*3\r\n${bulk('subscribe')}${bulk(channel)}:1\r\n`);
+        }
+        break;
+      case 'UNSUBSCRIBE':
+        for (const channel of args) {
+          unsubscribe(socket, channel);
+        }
+        break;
+      case 'PUBLISH': {
+        const [channel, payload] = args;
+        const receivers = channels.get(channel) || new Set();
+        for (const receiver of receivers) {
+          receiver.write(`*3\r\n${bulk('message')}${bulk(channel)}${bulk(payload)}`);
+        }
+        socket.write(`:${receivers.size}\r\n`);
+        break;
+      }
+      default:
+        socket.write('+OK\r\n');
+    }
+  }
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    accepted++;
+    let pending = Buffer.alloc(0);
+
+    socket.on('data', (chunk) => {
+      pending = Buffer.concat([pending, chunk]);
+      let parsed;
+      while ((parsed = parseResp(pending))) {
+        pending = pending.subarray(parsed.offset);
+        handleCommand(socket, parsed.value);
+      }
+    });
+    socket.on('error', () => {});
+    socket.on('close', () => {
+      sockets.delete(socket);
+      for (const channel of channels.keys()) {
+        unsubscribe(socket, channel);
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        url: `redis://127.0.0.1:${server.address().port}`,
+
+        subscriberCount: (channel) => channels.get(channel)?.size || 0,
+
+        // Connections accepted so far, reconnects included
+        connectionCount: () => accepted,
+
+        // Simulate a network blip or a server restart
+        dropConnections() {
+          for (const socket of sockets) {
+            socket.destroy();
+          }
+        },
+
+        // Write bytes no RESP parser accepts to every connection
+        sendGarbage() {
+          for (const socket of sockets) {
+            socket.write('?garbage\r\n');
+          }
+        },
+
+        close() {
+          for (const socket of sockets) {
+            socket.destroy();
+          }
+          return new Promise((done) => server.close(done));
+        },
+      });
+    });
+  });
+}
+
+module.exports = { startRespServer };
@@ -0,0 +1,126 @@
+const { describe, test, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { startServer, connectClient, registeredClient, eventually } = require('./harness');
+
+// Long enough for the 5 second room sweep to run once
+const SWEEP_WAIT = 7000;
+
+async function matchedPair(server) {
+  const first = await registeredClient(server);
+  const second = await registeredClient(server);
+  await first.findMatch();
+  await second.findMatch();
+  const { roomId } = await first.next('match-found');
+  await second.next('match-found');
+  return { first, second, roomId };
+}
+
+describe('room cleanup', () => {
+  let server;
+
+  beforeEach(async () => {
+    server = await startServer();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  test('leave-room ends the room for both users', async () => {
+    const { first, second, roomId } = await matchedPair(server);
+
+    let { body } = await server.admin('GET', '/rooms');
+    assert.deepEqual(body.rooms.map((room) => room.roomId), [roomId]);
+
+    first.send('leave-room', { roomId });
+    assert.deepEqual(await second.next('user-left'), { from: first.socketId });
+
+    ({ body } = await server.admin('GET', '/rooms'));
+    assert.equal(body.count, 0);
+    assert.deepEqual(await first.collect('user-left', 100), []);
+  });
+
+  test('a dropped user\'s room closes once the resume grace period is over', async () => {
+    const { first, second } = await matchedPair(server);
+
+    await second.close();
+    assert.deepEqual(await first.next('user-left'), { from: second.socketId });
+
+    const { body } = await server.admin('GET', '/rooms');
+    assert.equal(body.count, 0);
+  });
+
+  test('a dropped user can resume into the same room', async () => {
+    const { first, second, roomId } = await matchedPair(server);
+
+    await second.close();
+    const returning = await connectClient(server);
+    returning.send('resume-session', { resumeToken: second.resumeToken });
+    const resumed = await returning.next('session-resumed');
+
+    assert.equal(resumed.socketId, second.socketId);
+    assert.equal(resumed.roomId, roomId);
+    assert.equal(resumed.peerId, first.socketId);
+
+    first.send('offer', { offer: { type: 'offer', sdp: 'v=0' } });
+    assert.equal((await returning.next('offer')).from, first.socketId);
+    assert.deepEqual(await first.collect('user-left', 500), []);
+  });
+
+  test('a waiting user who disconnects leaves the queue', async () => {
+    const waiting = await registeredClient(server);
+    await waiting.findMatch();
+
+    let { body } = await server.admin('GET', '/queue');
+    assert.equal(body.count, 1);
+
+    await waiting.close();
+    await eventually(async () => {
+      ({ body } = await server.admin('GET', '/queue'));
+      assert.equal(body.count, 0);
+    });
+  });
+
+  test('an operator can end a room', async () => {
+    const { first, second, roomId } = await matchedPair(server);
+
+    const { status } = await server.admin('DELETE', `/rooms/${roomId}`);
+    assert.equal(status, 200);
+    assert.deepEqual(await first.next('user-left'), { from: second.socketId });
+    assert.deepEqual(await second.next('user-left'), { from: first.socketId });
+  });
+});
+
+describe('negotiation timeout', () => {
+  let server;
+
+  beforeEach(async () => {
+    server = await startServer({ NEGOTIATION_TIMEOUT_MS: '500' });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  test('dissolves rooms that never connect and re-queues both users', { timeout: 15000 }, async () => {
+    const connected = await matchedPair(server);
+    const stuck = await matchedPair(server);
+
+    connected.first.send('room-phase', { roomId: connected.roomId, phase: 'connected' });
+
+    const dissolved = await stuck.first.next('room-dissolved', { timeoutMs: SWEEP_WAIT });
+    assert.deepEqual(dissolved, { roomId: stuck.roomId, reason: 'negotiation-timeout', requeued: true });
+    assert.equal((await stuck.second.next('room-dissolved')).requeued, true);
+
+    // Re-queued together, and they are recent partners, so both keep waiting
+    let { body } = await server.admin('GET', '/queue');
+    assert.deepEqual(
+      body.waiting.map((entry) => entry.socketId).sort(),
+      [stuck.first.socketId, stuck.second.socketId].sort()
+    );
+
+    ({ body } = await server.admin('GET', '/rooms'));
+    assert.deepEqual(body.rooms.map((room) => [room.roomId, room.phase]), [[connected.roomId, 'connected']]);
+    assert.deepEqual(await connected.first.collect('room-dissolved', 0), []);
+  });
+});
@@ -0,0 +1,105 @@
+const { test, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { startServer, registeredClient } = require('./harness');
+
+const OFFER = { type: 'offer', sdp: 'v=0 offer' };
+const ANSWER = { type: 'answer', sdp: 'v=0 answer' };
+const CANDIDATE = { candidate: 'candidate:1 1 udp 2122260223 10.0.0.1 50000 typ host', sdpMid: '0', sdpMLineIndex: 0 };
+
+let server;
+
+beforeEach(async () => {
+  server = await startServer();
+});
+
+afterEach(async () => {
+  await server.stop();
+});
+
+// Register two clients and put them in a room together
+async function matchedPair() {
+  const caller = await registeredClient(server);
+  const callee = await registeredClient(server);
+  await caller.findMatch();
+  await callee.findMatch();
+  const { roomId } = await caller.next('match-found');
+  await callee.next('match-found');
+  return { caller, callee, roomId };
+}
+
+test('forwards offer, answer and ICE candidates to the partner', async () => {
+  const { caller, callee } = await matchedPair();
+
+  caller.send('offer', { offer: OFFER });
+  const offer = await callee.next('offer');
+  assert.deepEqual(offer, { offer: OFFER, from: caller.socketId });
+
+  callee.send('answer', { answer: ANSWER });
+  const answer = await caller.next('answer');
+  assert.deepEqual(answer, { answer: ANSWER, from: callee.socketId });
+
+  caller.send('ice-candidate', { candidate: CANDIDATE });
+  callee.send('ice-candidate', { candidate: CANDIDATE });
+  assert.deepEqual(await callee.next('ice-candidate'), { candidate: CANDIDATE, from: caller.socketId });
+  assert.deepEqual(await caller.next('ice-candidate'), { candidate: CANDIDATE, from: callee.socketId });
+});
+
+test('keeps every room\'s signaling to itself', async () => {
+  const first = await matchedPair();
+  const second = await matchedPair();
+
+  first.caller.send('offer', { offer: OFFER });
+  second.caller.send('offer', { offer: { type: 'offer', sdp: 'v=0 other' } });
+
+  assert.equal((await first.callee.next('offer')).from, first.caller.socketId);
+  assert.equal((await second.callee.next('offer')).from, second.caller.socketId);
+  assert.deepEqual(await first.callee.collect('offer', 200), []);
+  assert.deepEqual(await second.callee.collect('offer', 0), []);
+  assert.deepEqual(await first.caller.collect('offer', 0), []);
+  assert.deepEqual(await second.caller.collect('offer', 0), []);
+});
+
+test('forwards candidates in the order they were sent', async () => {
+  const { caller, callee } = await matchedPair();
+
+  for (let i = 0; i < 20; i++) {
+    caller.send('ice-candidate', { candidate: { ...CANDIDATE, sdpMLineIndex: i } });
+  }
+
+  for (let i = 0; i < 20; i++) {
+    const { candidate } = await callee.next('ice-candidate');
+    assert.equal(candidate.sdpMLineIndex, i);
+  }
+});
+
+test('drops signaling from a user who is not in a room', async () => {
+  const loner = await registeredClient(server);
+  const waiting = await registeredClient(server);
+  await waiting.findMatch({ interests: ['chess'] });
+
+  const ack = await loner.request('offer', { offer: OFFER });
+  assert.equal(ack.ok, true);
+  assert.deepEqual(await waiting.collect('offer', 200), []);
+});
+
+test('stops forwarding once the partner has left', async () => {
+  const { caller, callee, roomId } = await matchedPair();
+
+  callee.send('leave-room', { roomId });
+  assert.deepEqual(await caller.next('user-left'), { from: callee.socketId });
+
+  caller.send('offer', { offer: OFFER });
+  assert.deepEqual(await callee.collect('offer', 200), []);
+});
+
+test('ignores leave-room for a room the sender is not in', async () => {
+  const { caller, callee, roomId } = await matchedPair();
+  const outsider = await registeredClient(server);
+
+  outsider.send('leave-room', { roomId });
+  assert.equal((await outsider.next('room-error')).message, 'Not in this room');
+  assert.deepEqual(await caller.collect('user-left', 200), []);
+
+  caller.send('offer', { offer: OFFER });
+  assert.equal((await callee.next('offer')).from, caller.socketId);
+});
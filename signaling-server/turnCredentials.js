@@ -0,0 +1,45 @@
+// Short-lived TURN credentials using the time-limited HMAC scheme supported by
+// coturn's `use-auth-secret` mode: the username is `<expiry>:<userId>` (expiry
+// in unix seconds) and the password is base64(HMAC-SHA1(secret, username)).
+// The shared secret stays on the server; clients only ever see credentials
+// that stop working after `ttlSeconds`.
+
+const crypto = require('crypto');
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+
+function createTurnCredentials({
+  secret,
+  urls = [],
+  ttlSeconds = DEFAULT_TTL_SECONDS,
+  now = Date.now,
+} = {}) {
+  const enabled = !!secret && urls.length > 0;
+
+  return {
+    isEnabled() {
+      return enabled;
+    },
+
+    // ICE servers for a user and the time (ms) after which they must be refetched.
+    // Without a configured TURN server the list is empty and clients keep using STUN.
+    issue(userId) {
+      const expiresAt = now() + ttlSeconds * 1000;
+      if (!enabled) {
+        return { iceServers: [], expiresAt };
+      }
+
+      const username = `${Math.floor(expiresAt / 1000)}:${userId}`;
+      const credential = crypto.createHmac('sha1', secret).update(username).digest('base64');
+      return {
+        iceServers: [{ urls, username, credential }],
+        expiresAt,
+      };
+    },
+  };
+}
+
+module.exports = {
+  createTurnCredentials,
+  DEFAULT_TTL_SECONDS,
+};
@@ -0,0 +1,75 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { chatOverlayStyles } from '../../styles/chatOverlayStyles';
+import { ChatMessage } from '../../types/webrtc';
+import { responsiveSize } from '../../utils/responsiveUtils';
+
+interface ChatOverlayProps {
+  messages: ChatMessage[];
+  isReady: boolean;
+  onSend: (text: string) => boolean;
+}
+
+export const ChatOverlay: React.FC<ChatOverlayProps> = ({
+  messages,
+  isReady,
+  onSend,
+}) => {
+  const [draft, setDraft] = React.useState('');
+  const scrollRef = React.useRef<ScrollView>(null);
+
+  const handleSend = () => {
+    if (onSend(draft)) {
+      setDraft('');
+    }
+  };
+
+  if (!isReady) {
+    return null;
+  }
+
+  return (
+    <View style={chatOverlayStyles.container} pointerEvents="box-none">
+      <ScrollView
+        ref={scrollRef}
+        style={chatOverlayStyles.messageList}
+        contentContainerStyle={chatOverlayStyles.messageListContent}
+        onContentSizeChange={() => scrollRef.current?.scrollToEnd({ animated: true })}
+      >
+        {messages.map(message => (
+          <View
+            key={message.id}
+            style={[
+              chatOverlayStyles.bubble,
+              message.direction === 'outgoing' ? chatOverlayStyles.outgoingBubble : chatOverlayStyles.incomingBubble,
+            ]}
+          >
+            <Text style={chatOverlayStyles.bubbleText}>{message.text}</Text>
+            {message.direction === 'outgoing' && (
+              <Text style={chatOverlayStyles.statusText}>
+                {message.status === 'delivered' ? 'ส่งถึงแล้ว' : 'ส่งแล้ว'}
+              </Text>
+            )}
+          </View>
+        ))}
+      </ScrollView>
+
+      <View style={chatOverlayStyles.inputRow}>
+        <TextInput
+          style={chatOverlayStyles.input}
+          value={draft}
+          onChangeText={setDraft}
+          placeholder="พิมพ์ข้อความ..."
+          placeholderTextColor="rgba(255, 255, 255, 0.5)"
+          maxLength={500}
+          returnKeyType="send"
+          onSubmitEditing={handleSend}
+        />
+        <TouchableOpacity style={chatOverlayStyles.sendButton} onPress={handleSend}>
+          <Ionicons name="send" size={responsiveSize(16)} color="#fff" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
@@ -0,0 +1,88 @@
+import React from 'react';
+import { Modal, Pressable, Text, TouchableOpacity, View } from 'react-native';
+import { interestsStyles } from '../../styles/interestsStyles';
+import { reportUserStyles } from '../../styles/reportUserStyles';
+
+interface InterestsModalProps {
+  visible: boolean;
+  interests: string[];
+  onSave: (interests: string[]) => void;
+  onCancel: () => void;
+}
+
+// Sent to the server by key, so users who pick the same topic share it
+const INTEREST_LABELS: Record<string, string> = {
+  music: 'ดนตรี',
+  gaming: 'เกม',
+  movies: 'ภาพยนตร์',
+  sports: 'กีฬา',
+  travel: 'ท่องเที่ยว',
+  food: 'อาหาร',
+  photography: 'ถ่ายภาพ',
+  art: 'ศิลปะ',
+  reading: 'อ่านหนังสือ',
+  technology: 'เทคโนโลยี',
+  fashion: 'แฟชั่น',
+  pets: 'สัตว์เลี้ยง',
+  languages: 'ภาษา',
+  fitness: 'ออกกำลังกาย',
+};
+
+export const InterestsModal: React.FC<InterestsModalProps> = ({
+  visible,
+  interests,
+  onSave,
+  onCancel,
+}) => {
+  const [selected, setSelected] = React.useState<string[]>(interests);
+
+  // Start from the saved interests every time the sheet opens
+  React.useEffect(() => {
+    if (visible) {
+      setSelected(interests);
+    }
+  }, [visible, interests]);
+
+  const toggle = (interest: string) => {
+    setSelected(current =>
+      current.includes(interest) ? current.filter(item => item !== interest) : [...current, interest]
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onCancel}>
+      <Pressable style={reportUserStyles.backdrop} onPress={onCancel}>
+        {/* Swallow presses inside the sheet so they don't close it */}
+        <Pressable style={reportUserStyles.sheet} onPress={() => {}}>
+          <Text style={reportUserStyles.title}>ความสนใจของคุณ</Text>
+          <Text style={reportUserStyles.subtitle}>
+            เราจะจับคู่คุณกับคนที่สนใจเรื่องเดียวกันก่อน
+          </Text>
+
+          <View style={interestsStyles.chipRow}>
+            {Object.keys(INTEREST_LABELS).map(interest => {
+              const isSelected = selected.includes(interest);
+              return (
+                <TouchableOpacity
+                  key={interest}
+                  style={[interestsStyles.chip, isSelected && interestsStyles.chipSelected]}
+                  onPress={() => toggle(interest)}
+                >
+                  <Text style={interestsStyles.chipText}>{INTEREST_LABELS[interest]}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity style={interestsStyles.saveButton} onPress={() => onSave(selected)}>
+            <Text style={interestsStyles.saveText}>บันทึก</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={reportUserStyles.cancelButton} onPress={onCancel}>
+            <Text style={reportUserStyles.cancelText}>ยกเลิก</Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
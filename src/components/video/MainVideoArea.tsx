@@ -1,14 +1,19 @@
+import { Ionicons } from '@expo/vector-icons';
 import { BlurView } from 'expo-blur';
 import { LinearGradient } from 'expo-linear-gradient';
 import React from 'react';
-import { ActivityIndicator, Text, View } from 'react-native';
+import { ActivityIndicator, Text, TouchableOpacity, View } from 'react-native';
 import { GestureDetector } from 'react-native-gesture-handler';
 import Animated from 'react-native-reanimated';
 import { RTCView } from 'react-native-webrtc';
 import { FloatingParticles } from '../common';
 import { homeScreenStyles } from '../../styles/homeScreenStyles';
+import { reportUserStyles } from '../../styles/reportUserStyles';
 import { User } from '../../types/user';
+import { CallQualityLevel, MatchReason } from '../../types/webrtc';
 import { detectDevicePerformance } from '../../utils/performanceUtils';
+import { responsiveSize } from '../../utils/responsiveUtils';
+import { SignalBars } from './SignalBars';
 
 interface MainVideoAreaProps {
   currentUser: User;
@@ -21,9 +26,30 @@ interface MainVideoAreaProps {
   remoteStream?: any;
   isConnected: boolean;
   isConnecting: boolean;
+  isReconnecting?: boolean;
+  callFailed?: boolean;
+  // Searching is paused because we skipped too fast
+  isRateLimited?: boolean;
   isSearching: boolean;
+  matchReason?: MatchReason | null;
+  onReport?: () => void;
+  callQuality?: CallQualityLevel | null;
 }
 
+// Human readable summary of why the matchmaker paired us, e.g. "You both like Photography"
+const describeMatchReason = (reason: MatchReason): string | null => {
+  if (reason.sharedInterests.length > 0) {
+    return `You both like ${reason.sharedInterests.join(', ')}`;
+  }
+  if (reason.sameLanguage) {
+    return 'You speak the same language';
+  }
+  if (reason.sameRegion) {
+    return 'You are from the same area';
+  }
+  return null;
+};
+
 export const MainVideoArea: React.FC<MainVideoAreaProps> = ({
   currentUser,
   nextUser,
@@ -34,9 +60,16 @@ export const MainVideoArea: React.FC<MainVideoAreaProps> = ({
   remoteStream,
   isConnected,
   isConnecting,
+  isReconnecting = false,
+  callFailed = false,
+  isRateLimited = false,
   isSearching,
+  matchReason,
+  onReport,
+  callQuality = null,
 }) => {
   const devicePerformance = detectDevicePerformance();
+  const matchReasonText = matchReason ? describeMatchReason(matchReason) : null;
 
   return (
     <View style={homeScreenStyles.videoContainer}>
@@ -75,15 +108,42 @@ export const MainVideoArea: React.FC<MainVideoAreaProps> = ({
               )}
 
               {/* Connection status overlay */}
-              {(isConnecting || isSearching) && (
+              {(isConnecting || isReconnecting || isSearching || isRateLimited) && (
                 <View style={homeScreenStyles.connectionOverlay}>
                   <ActivityIndicator size="large" color="#fff" />
                   <Text style={homeScreenStyles.connectionText}>
-                    {isSearching ? 'กำลังหาเพื่อนใหม่...' : 'กำลังเชื่อมต่อ...'}
+                    {isRateLimited
+                      ? 'คุณกดถัดไปเร็วเกินไป กรุณารอสักครู่...'
+                      : isSearching
+                        ? callFailed
+                          ? 'การเชื่อมต่อขาดหาย กำลังหาเพื่อนใหม่...'
+                          : 'กำลังหาเพื่อนใหม่...'
+                        : isReconnecting
+                          ? 'กำลังเชื่อมต่อใหม่...'
+                          : 'กำลังเชื่อมต่อ...'}
                   </Text>
                 </View>
               )}
 
+              {/* Connection quality */}
+              {remoteStream && <SignalBars quality={callQuality} />}
+
+              {/* Report current partner */}
+              {remoteStream && onReport && (
+                <TouchableOpacity style={reportUserStyles.reportButton} onPress={onReport}>
+                  <Ionicons name="flag" size={responsiveSize(18)} color="#fff" />
+                </TouchableOpacity>
+              )}
+
+              {/* Why we were matched */}
+              {remoteStream && matchReasonText && (
+                <View style={homeScreenStyles.matchReasonContainer}>
+                  <View style={homeScreenStyles.interestTag}>
+                    <Text style={homeScreenStyles.interestText}>{matchReasonText}</Text>
+                  </View>
+                </View>
+              )}
+
             </View>
           </LinearGradient>
         </Animated.View>
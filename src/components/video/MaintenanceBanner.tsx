@@ -0,0 +1,24 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+import { homeScreenStyles } from '../../styles/homeScreenStyles';
+import { responsiveSize } from '../../utils/responsiveUtils';
+
+interface MaintenanceBannerProps {
+  message: string;
+  // Omitted when the banner reflects a state the user cannot dismiss
+  onDismiss?: () => void;
+}
+
+// Operator announcement across the top of the screen
+export const MaintenanceBanner: React.FC<MaintenanceBannerProps> = ({ message, onDismiss }) => (
+  <View style={homeScreenStyles.maintenanceBanner}>
+    <Ionicons name="construct" size={responsiveSize(18)} color="#fff" />
+    <Text style={homeScreenStyles.maintenanceBannerText}>{message}</Text>
+    {onDismiss && (
+      <TouchableOpacity onPress={onDismiss} hitSlop={8}>
+        <Ionicons name="close" size={responsiveSize(18)} color="#fff" />
+      </TouchableOpacity>
+    )}
+  </View>
+);
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Modal, Pressable, Text, TouchableOpacity } from 'react-native';
+import { reportUserStyles } from '../../styles/reportUserStyles';
+import { ReportReason } from '../../types/webrtc';
+
+interface ReportUserModalProps {
+  visible: boolean;
+  onSelect: (reason: ReportReason) => void;
+  onCancel: () => void;
+}
+
+const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  nudity: 'ภาพหรือพฤติกรรมไม่เหมาะสม',
+  harassment: 'คุกคามหรือใช้คำหยาบคาย',
+  spam: 'สแปมหรือโฆษณา',
+  underage: 'ผู้ใช้อายุต่ำกว่าเกณฑ์',
+  other: 'อื่นๆ',
+};
+
+export const ReportUserModal: React.FC<ReportUserModalProps> = ({
+  visible,
+  onSelect,
+  onCancel,
+}) => {
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onCancel}>
+      <Pressable style={reportUserStyles.backdrop} onPress={onCancel}>
+        {/* Swallow presses inside the sheet so they don't close it */}
+        <Pressable style={reportUserStyles.sheet} onPress={() => {}}>
+          <Text style={reportUserStyles.title}>รายงานผู้ใช้</Text>
+          <Text style={reportUserStyles.subtitle}>
+            ผู้ใช้นี้จะไม่ถูกจับคู่กับคุณอีก
+          </Text>
+
+          {(Object.keys(REPORT_REASON_LABELS) as ReportReason[]).map(reason => (
+            <TouchableOpacity
+              key={reason}
+              style={reportUserStyles.reasonButton}
+              onPress={() => onSelect(reason)}
+            >
+              <Text style={reportUserStyles.reasonText}>{REPORT_REASON_LABELS[reason]}</Text>
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity style={reportUserStyles.cancelButton} onPress={onCancel}>
+            <Text style={reportUserStyles.cancelText}>ยกเลิก</Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
@@ -5,6 +5,7 @@ import { Text, TouchableOpacity, View } from 'react-native';
 import { RTCView } from 'react-native-webrtc';
 import { selfVideoStyles } from '../../styles/selfVideoStyles';
 import { CallState } from '../../types/user';
+import { VideoQualityProfile } from '../../types/webrtc';
 import { responsiveSize } from '../../utils/responsiveUtils';
 
 interface SelfVideoAreaProps {
@@ -13,25 +14,41 @@ interface SelfVideoAreaProps {
   onVideo: () => void;
   onEndCall: () => void;
   onNext: () => void;
+  onBlock?: () => void;
   // WebRTC props
   localStream?: any;
   isVideoEnabled: boolean;
   isAudioEnabled: boolean;
   onSwitchCamera?: () => void;
   onBoostAudio?: () => void;
+  qualityProfile?: VideoQualityProfile;
+  onChangeQualityProfile?: () => void;
+  interestCount?: number;
+  onEditInterests?: () => void;
 }
 
+const QUALITY_PROFILE_LABELS: Record<VideoQualityProfile, string> = {
+  'data-saver': 'ประหยัดเน็ต',
+  balanced: 'สมดุล',
+  hd: 'HD',
+};
+
 export const SelfVideoArea: React.FC<SelfVideoAreaProps> = ({
   callState,
   onMute,
   onVideo,
   onEndCall,
   onNext,
+  onBlock,
   localStream,
   isVideoEnabled,
   isAudioEnabled,
   onSwitchCamera,
   onBoostAudio,
+  qualityProfile,
+  onChangeQualityProfile,
+  interestCount = 0,
+  onEditInterests,
 }) => {
   // Force re-render when stream changes
   const [forceUpdate, setForceUpdate] = React.useState(0);
@@ -102,6 +119,30 @@ export const SelfVideoArea: React.FC<SelfVideoAreaProps> = ({
           <Text style={selfVideoStyles.selfUserName}>You</Text>
         </View>
 
+        {/* Outgoing video quality profile */}
+        {qualityProfile && onChangeQualityProfile && (
+          <TouchableOpacity
+            style={selfVideoStyles.qualityProfileButton}
+            onPress={onChangeQualityProfile}
+          >
+            <Ionicons name="speedometer-outline" size={responsiveSize(14)} color="#fff" />
+            <Text style={selfVideoStyles.qualityProfileText}>{QUALITY_PROFILE_LABELS[qualityProfile]}</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Interests used for matching */}
+        {onEditInterests && (
+          <TouchableOpacity
+            style={selfVideoStyles.interestsButton}
+            onPress={onEditInterests}
+          >
+            <Ionicons name="pricetags-outline" size={responsiveSize(14)} color="#fff" />
+            <Text style={selfVideoStyles.qualityProfileText}>
+              {interestCount > 0 ? `ความสนใจ ${interestCount}` : 'ความสนใจ'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
         {/* Control buttons overlay on self video */}
         <View style={selfVideoStyles.controlsOverlay}>
           <TouchableOpacity
@@ -148,6 +189,15 @@ export const SelfVideoArea: React.FC<SelfVideoAreaProps> = ({
             <Ionicons name="arrow-forward" size={responsiveSize(20)} color="#3498db" />
           </TouchableOpacity>
 
+          {onBlock && (
+            <TouchableOpacity
+              style={[selfVideoStyles.controlButton, selfVideoStyles.secondaryButton]}
+              onPress={onBlock}
+            >
+              <Ionicons name="ban" size={responsiveSize(20)} color="#FF4757" />
+            </TouchableOpacity>
+          )}
+
           <TouchableOpacity
             style={[selfVideoStyles.controlButton, selfVideoStyles.endCallButton]}
             onPress={onEndCall}
@@ -0,0 +1,41 @@
+import React from 'react';
+import { View } from 'react-native';
+import { homeScreenStyles } from '../../styles/homeScreenStyles';
+import { CallQualityLevel } from '../../types/webrtc';
+import { responsiveSize } from '../../utils/responsiveUtils';
+
+interface SignalBarsProps {
+  quality: CallQualityLevel | null;
+}
+
+const QUALITY_BARS: Record<CallQualityLevel, { count: number; color: string }> = {
+  good: { count: 3, color: '#2ecc71' },
+  fair: { count: 2, color: '#f39c12' },
+  poor: { count: 1, color: '#FF4757' },
+};
+
+// Three-bar connection quality indicator for the remote video
+export const SignalBars: React.FC<SignalBarsProps> = ({ quality }) => {
+  if (!quality) {
+    return null;
+  }
+
+  const { count, color } = QUALITY_BARS[quality];
+
+  return (
+    <View style={homeScreenStyles.signalBars}>
+      {[1, 2, 3].map(bar => (
+        <View
+          key={bar}
+          style={[
+            homeScreenStyles.signalBar,
+            {
+              height: responsiveSize(4 + bar * 4),
+              backgroundColor: bar <= count ? color : 'rgba(255, 255, 255, 0.3)',
+            },
+          ]}
+        />
+      ))}
+    </View>
+  );
+};
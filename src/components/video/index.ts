@@ -1,2 +1,7 @@
 export { MainVideoArea } from './MainVideoArea';
 export { SelfVideoArea } from './SelfVideoArea';
+export { ReportUserModal } from './ReportUserModal';
+export { ChatOverlay } from './ChatOverlay';
+export { SignalBars } from './SignalBars';
+export { MaintenanceBanner } from './MaintenanceBanner';
+export { InterestsModal } from './InterestsModal';
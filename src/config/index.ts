@@ -0,0 +1,2 @@
+// Barrel export for configuration
+export * from './runtimeConfig';
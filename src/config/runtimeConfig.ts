@@ -0,0 +1,135 @@
+import Constants from 'expo-constants';
+import { STORAGE_KEYS } from '../constants';
+import { getStoredValue, removeStoredValue, setStoredValue } from '../utils/storage';
+
+// Runtime configuration: endpoints, ICE servers and feature flags.
+//
+// Resolution order, later wins:
+//   1. the built-in profile for the build's environment (EXPO_PUBLIC_APP_ENV,
+//      set per build profile in eas.json)
+//   2. `extra.runtimeConfig` from the Expo app config
+//   3. EXPO_PUBLIC_SIGNALING_URL / EXPO_PUBLIC_API_URL
+//   4. an override saved on the device from the developer screen
+
+export type AppEnvironment = 'development' | 'preview' | 'production';
+export type SignalingTransportKind = 'websocket' | 'socket.io';
+
+export interface FeatureFlags {
+  textChat: boolean;
+  // Long-press the top-left corner of the home screen to open the developer screen
+  developerMenu: boolean;
+}
+
+export interface RuntimeConfig {
+  environment: AppEnvironment;
+  signalingUrl: string;
+  signalingTransport: SignalingTransportKind;
+  apiUrl: string;
+  iceServers: RTCIceServer[];
+  features: FeatureFlags;
+}
+
+// Endpoint choice persisted by the developer screen
+export type DeveloperOverride = Partial<
+  Pick<RuntimeConfig, 'environment' | 'signalingUrl' | 'signalingTransport' | 'apiUrl'>
+>;
+
+const STUN_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' },
+  { urls: 'stun:stun2.l.google.com:19302' },
+  { urls: 'stun:stun3.l.google.com:19302' },
+  { urls: 'stun:stun4.l.google.com:19302' },
+];
+
+export const ENVIRONMENT_PROFILES: Record<AppEnvironment, RuntimeConfig> = {
+  development: {
+    environment: 'development',
+    signalingUrl: 'ws://192.168.95.82:3001/ws',
+    signalingTransport: 'websocket',
+    apiUrl: 'http://192.168.95.82:3001',
+    iceServers: STUN_SERVERS,
+    features: { textChat: true, developerMenu: true },
+  },
+  preview: {
+    environment: 'preview',
+    signalingUrl: 'wss://staging.your-production-server.com/ws',
+    signalingTransport: 'websocket',
+    apiUrl: 'https://staging.your-production-server.com',
+    iceServers: STUN_SERVERS,
+    features: { textChat: true, developerMenu: true },
+  },
+  production: {
+    environment: 'production',
+    signalingUrl: 'wss://your-production-server.com/ws',
+    signalingTransport: 'websocket',
+    apiUrl: 'https://your-production-server.com',
+    iceServers: STUN_SERVERS,
+    features: { textChat: true, developerMenu: false },
+  },
+};
+
+const isEnvironment = (value: unknown): value is AppEnvironment =>
+  typeof value === 'string' && value in ENVIRONMENT_PROFILES;
+
+const buildEnvironment = (): AppEnvironment => {
+  const fromEnv = process.env.EXPO_PUBLIC_APP_ENV;
+  if (isEnvironment(fromEnv)) {
+    return fromEnv;
+  }
+  return __DEV__ ? 'development' : 'production';
+};
+
+// Config for an environment before any device override
+const resolveBuildConfig = (environment: AppEnvironment): RuntimeConfig => {
+  const profile = ENVIRONMENT_PROFILES[environment];
+  const extra: Partial<RuntimeConfig> = Constants.expoConfig?.extra?.runtimeConfig ?? {};
+
+  return {
+    ...profile,
+    ...extra,
+    environment,
+    signalingUrl: process.env.EXPO_PUBLIC_SIGNALING_URL || extra.signalingUrl || profile.signalingUrl,
+    apiUrl: process.env.EXPO_PUBLIC_API_URL || extra.apiUrl || profile.apiUrl,
+    features: { ...profile.features, ...extra.features },
+  };
+};
+
+const applyOverride = (override: DeveloperOverride | null): RuntimeConfig => {
+  const base = resolveBuildConfig(override?.environment ?? buildEnvironment());
+  return override ? { ...base, ...override } : base;
+};
+
+let currentConfig = applyOverride(null);
+let currentOverride: DeveloperOverride | null = null;
+
+// Apply the override saved on this device, if any. Call once at startup
+// before anything connects.
+export const loadRuntimeConfig = async (): Promise<RuntimeConfig> => {
+  currentOverride = await getStoredValue<DeveloperOverride>(STORAGE_KEYS.DEVELOPER_OVERRIDE);
+  currentConfig = applyOverride(currentOverride);
+  console.log('Runtime config loaded:', currentConfig.environment, currentConfig.signalingUrl);
+  return currentConfig;
+};
+
+export const getRuntimeConfig = (): RuntimeConfig => currentConfig;
+
+export const getDeveloperOverride = (): DeveloperOverride | null => currentOverride;
+
+// Config that a given override would produce, for previews in the developer screen
+export const previewRuntimeConfig = (override: DeveloperOverride | null): RuntimeConfig => applyOverride(override);
+
+// Persist an endpoint choice. Services pick it up on their next connection.
+export const saveDeveloperOverride = async (override: DeveloperOverride): Promise<RuntimeConfig> => {
+  currentOverride = override;
+  currentConfig = applyOverride(override);
+  await setStoredValue(STORAGE_KEYS.DEVELOPER_OVERRIDE, override);
+  return currentConfig;
+};
+
+export const clearDeveloperOverride = async (): Promise<RuntimeConfig> => {
+  currentOverride = null;
+  currentConfig = applyOverride(null);
+  await removeStoredValue(STORAGE_KEYS.DEVELOPER_OVERRIDE);
+  return currentConfig;
+};
@@ -4,8 +4,7 @@ export * from './theme';
 export const APP_NAME = 'June TV';
 export const APP_VERSION = '1.0.0';
 
-// API constants
-export const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:8080';
+// API constants (the base URL comes from the runtime config, see src/config)
 export const API_TIMEOUT = 10000;
 
 // Storage keys
@@ -13,10 +12,13 @@ export const STORAGE_KEYS = {
   USER_TOKEN: 'user_token',
   USER_PREFERENCES: 'user_preferences',
   THEME_MODE: 'theme_mode',
+  VIDEO_QUALITY_PROFILE: 'video_quality_profile',
+  DEVELOPER_OVERRIDE: 'developer_override',
 } as const;
 
 // Screen names
 export const SCREEN_NAMES = {
   HOME: 'Home',
+  DEVELOPER: 'Developer',
   MAIN_TABS: 'MainTabs',
 } as const;
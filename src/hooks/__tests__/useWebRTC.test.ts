@@ -0,0 +1,68 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import SignalingService, { signalingService } from '../../services/signalingService';
+import { webRTCService } from '../../services/webrtcService';
+import { FakeSignalingServer } from '../../testing/loopbackTransport';
+import { useWebRTC } from '../useWebRTC';
+
+// The peer connection needs native WebRTC; these tests cover the signaling side
+jest.mock('../../services/webrtcService', () => ({
+  webRTCService: {
+    initialize: jest.fn(async () => {}),
+    on: jest.fn(() => () => {}),
+    getState: jest.fn(() => ({ isConnected: false, isConnecting: false, hasLocalStream: true, hasRemoteStream: false })),
+    startSession: jest.fn(),
+    createOffer: jest.fn(async () => {}),
+    endCall: jest.fn(),
+    dispose: jest.fn(),
+  },
+}));
+
+let server: FakeSignalingServer;
+let peer: SignalingService;
+
+beforeEach(async () => {
+  server = new FakeSignalingServer();
+  signalingService.useTransport(server.createTransport);
+  signalingService.useAuthTokens({ getToken: async () => 'token-me', invalidate: async () => {} });
+
+  // Someone already waiting for a partner
+  peer = new SignalingService();
+  peer.useTransport(server.createTransport);
+  peer.useAuthTokens({ getToken: async () => 'token-peer', invalidate: async () => {} });
+  const registered = new Promise(resolve => peer.once('registration-success', resolve));
+  await peer.connect({ userId: 'peer', isReady: true });
+  await registered;
+  await peer.findMatch();
+});
+
+afterEach(() => {
+  peer.disconnect();
+  jest.clearAllMocks();
+});
+
+test('searches once registered and starts a session with the match', async () => {
+  const { result, unmount } = renderHook(() => useWebRTC());
+
+  await waitFor(() => expect(result.current.signalingState.currentRoomId).toBeDefined(), { timeout: 3000 });
+  expect(result.current.isSearching).toBe(false);
+  expect(result.current.matchReason).toEqual(expect.objectContaining({ score: 0 }));
+  expect(webRTCService.startSession).toHaveBeenCalledWith(peer.getSocketId(), expect.any(Boolean));
+
+  unmount();
+});
+
+test('leaves the room when moving on to the next user', async () => {
+  const { result, unmount } = renderHook(() => useWebRTC());
+  await waitFor(() => expect(result.current.signalingState.currentRoomId).toBeDefined(), { timeout: 3000 });
+
+  const userLeft = new Promise(resolve => peer.once('user-left', resolve));
+  act(() => result.current.nextUser());
+
+  expect(await userLeft).toEqual({ from: signalingService.getSocketId() });
+  expect(webRTCService.endCall).toHaveBeenCalled();
+  await waitFor(() => expect(result.current.signalingState.currentRoomId).toBeUndefined());
+  // The next search starts after a short pause
+  await waitFor(() => expect(result.current.isSearching).toBe(true), { timeout: 3000 });
+
+  unmount();
+});
@@ -46,8 +46,11 @@ export const useDebounce = <T>(value: T, delay: number): T => {
 };
 
 // New hooks for HomeScreen
+export { useCallQuality } from './useCallQuality';
 export { useCallState } from './useCallState';
+export { useChat } from './useChat';
 export { useSwipeGesture } from './useSwipeGesture';
 export { useUserSwipe } from './useUserSwipe';
+export { useVideoQuality } from './useVideoQuality';
 export { useWebRTC } from './useWebRTC';
 
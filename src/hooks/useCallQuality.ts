@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { webRTCService } from '../services/webrtcService';
+import { CallQualityLevel, CallQualitySample } from '../types/webrtc';
+
+// Live call quality from the WebRTC stats collector
+export const useCallQuality = () => {
+  const [quality, setQuality] = useState<CallQualityLevel | null>(null);
+  const [latestSample, setLatestSample] = useState<CallQualitySample | null>(null);
+
+  useEffect(() => {
+    const handleCallQuality = (sample: CallQualitySample) => {
+      setLatestSample(sample);
+    };
+
+    const handleQualityChanged = (level: CallQualityLevel) => {
+      setQuality(level);
+    };
+
+    // Stats stop when the call ends, so reset to "unknown"
+    const handleCallEnded = () => {
+      setQuality(null);
+      setLatestSample(null);
+    };
+
+    const unsubscribers = [
+      webRTCService.on('callQuality', handleCallQuality),
+      webRTCService.on('qualityChanged', handleQualityChanged),
+      webRTCService.on('callEnded', handleCallEnded),
+      webRTCService.on('disconnected', handleCallEnded),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, []);
+
+  return {
+    quality,
+    latestSample,
+  };
+};
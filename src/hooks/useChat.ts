@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react';
+import { webRTCService } from '../services/webrtcService';
+import { ChatMessage } from '../types/webrtc';
+
+// In-call text chat over the WebRTC data channel
+export const useChat = () => {
+  const [messages, setMessages] = useState<ChatMessage[]>(() => webRTCService.getChatMessages());
+  const [isReady, setIsReady] = useState(() => webRTCService.isChatReady());
+
+  useEffect(() => {
+    const handleChatMessage = (message: ChatMessage) => {
+      setMessages(prev => [...prev, message]);
+    };
+
+    const handleChatMessageUpdated = (message: ChatMessage) => {
+      setMessages(prev => prev.map(m => (m.id === message.id ? message : m)));
+    };
+
+    const handleChatCleared = () => {
+      setMessages([]);
+    };
+
+    const handleChatReady = (ready: boolean) => {
+      setIsReady(ready);
+    };
+
+    const unsubscribers = [
+      webRTCService.on('chatMessage', handleChatMessage),
+      webRTCService.on('chatMessageUpdated', handleChatMessageUpdated),
+      webRTCService.on('chatCleared', handleChatCleared),
+      webRTCService.on('chatReady', handleChatReady),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, []);
+
+  const sendMessage = useCallback((text: string) => {
+    return webRTCService.sendChatMessage(text) !== null;
+  }, []);
+
+  return {
+    messages,
+    isReady,
+    sendMessage,
+  };
+};
@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react';
+import { STORAGE_KEYS } from '../constants';
+import { DEFAULT_VIDEO_QUALITY_PROFILE } from '../services/bitrateController';
+import { webRTCService } from '../services/webrtcService';
+import { VideoQualityProfile } from '../types/webrtc';
+import { getStoredValue, setStoredValue } from '../utils/storage';
+
+const PROFILE_ORDER: VideoQualityProfile[] = ['data-saver', 'balanced', 'hd'];
+
+// Persisted outgoing video quality profile
+export const useVideoQuality = () => {
+  const [profile, setProfileState] = useState<VideoQualityProfile>(() => webRTCService.getQualityProfile());
+
+  // Restore the saved profile on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    getStoredValue<VideoQualityProfile>(STORAGE_KEYS.VIDEO_QUALITY_PROFILE).then(saved => {
+      const restored = saved && PROFILE_ORDER.includes(saved) ? saved : DEFAULT_VIDEO_QUALITY_PROFILE;
+      if (!cancelled) {
+        setProfileState(restored);
+        webRTCService.setQualityProfile(restored);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const setProfile = useCallback((next: VideoQualityProfile) => {
+    setProfileState(next);
+    webRTCService.setQualityProfile(next);
+    setStoredValue(STORAGE_KEYS.VIDEO_QUALITY_PROFILE, next);
+  }, []);
+
+  // Move to the next profile, wrapping around
+  const cycleProfile = useCallback(() => {
+    const next = PROFILE_ORDER[(PROFILE_ORDER.indexOf(profile) + 1) % PROFILE_ORDER.length];
+    setProfile(next);
+  }, [profile, setProfile]);
+
+  return {
+    profile,
+    setProfile,
+    cycleProfile,
+  };
+};
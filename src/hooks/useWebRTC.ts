@@ -1,9 +1,33 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { Alert } from 'react-native';
 import { MediaStream } from 'react-native-webrtc';
+import { MAX_INTEREST_LENGTH, MAX_INTERESTS } from '../../shared/signalingProtocol';
+import { STORAGE_KEYS } from '../constants';
 import { signalingService } from '../services/signalingService';
 import { webRTCService } from '../services/webrtcService';
-import { SignalingState, UserSession, WebRTCState } from '../types/webrtc';
+import {
+  MaintenanceNoticePayload,
+  MatchFoundPayload,
+  MatchReason,
+  RateLimitedPayload,
+  RegistrationSuccessPayload,
+  ReportReason,
+  RoomErrorPayload,
+  SessionResumedPayload,
+  SignalingState,
+  UserPreferences,
+  UserSession,
+  WebRTCState,
+} from '../types/webrtc';
+import { getStoredValue, setStoredValue } from '../utils/storage';
+
+// Trim, dedupe and cap interests to what the server accepts
+const normalizeInterests = (interests: string[]): string[] =>
+  Array.from(new Set(
+    interests
+      .map(interest => interest.trim().slice(0, MAX_INTEREST_LENGTH))
+      .filter(Boolean)
+  )).slice(0, MAX_INTERESTS);
 
 export const useWebRTC = () => {
   const [webrtcState, setWebRTCState] = useState<WebRTCState>({
@@ -22,20 +46,46 @@ export const useWebRTC = () => {
   const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
   const [isAudioEnabled, setIsAudioEnabled] = useState(true);
   const [isVideoEnabled, setIsVideoEnabled] = useState(true);
+  const [matchReason, setMatchReason] = useState<MatchReason | null>(null);
+  const [maintenanceNotice, setMaintenanceNotice] = useState<MaintenanceNoticePayload | null>(null);
+  // The server refuses find-match until operators turn matchmaking back on
+  const [isMatchmakingPaused, setIsMatchmakingPaused] = useState(false);
+  // Interests the matchmaker pairs us on, persisted across launches
+  const [interests, setInterestsState] = useState<string[]>([]);
 
   const userSessionRef = useRef<UserSession>({
-    userId: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    // Assigned by the server from our session token on registration
+    userId: '',
     isReady: false,
     preferences: {
       videoEnabled: true,
       audioEnabled: true,
+      // Device language (e.g. "th" from "th-TH") for language-aware matching
+      language: Intl.DateTimeFormat().resolvedOptions().locale.split('-')[0],
     },
   });
 
+  // Pending search retry while the server throttles find-match
+  const searchRetryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Interests go out with the next registration and find-match
+  const applyInterests = useCallback((next: string[]) => {
+    if (userSessionRef.current.preferences) {
+      userSessionRef.current.preferences.interests = next;
+    }
+    setInterestsState(next);
+  }, []);
+
   // Initialize WebRTC and Signaling services
   const initialize = useCallback(async () => {
     try {
       console.log('Initializing WebRTC services...');
+
+      // Restore saved interests so the first registration already carries them
+      const saved = await getStoredValue<Partial<UserPreferences>>(STORAGE_KEYS.USER_PREFERENCES);
+      if (Array.isArray(saved?.interests)) {
+        applyInterests(normalizeInterests(saved.interests));
+      }
       
       // Initialize WebRTC service first
       await webRTCService.initialize();
@@ -52,7 +102,7 @@ export const useWebRTC = () => {
         [{ text: 'ตกลง' }]
       );
     }
-  }, []);
+  }, [applyInterests]);
 
   // Start searching for a match
   const findMatch = useCallback(() => {
@@ -61,7 +111,26 @@ export const useWebRTC = () => {
       return;
     }
 
-    signalingService.findMatch(userSessionRef.current.preferences);
+    // The server is throttling us; search again once the cooldown is over
+    const cooldownMs = (signalingService.getState().rateLimitedUntil ?? 0) - Date.now();
+    if (cooldownMs > 0) {
+      if (!searchRetryTimerRef.current) {
+        searchRetryTimerRef.current = setTimeout(() => {
+          searchRetryTimerRef.current = null;
+          setSignalingState(prev => ({ ...prev, rateLimitedUntil: undefined }));
+          findMatch();
+        }, cooldownMs);
+      }
+      return;
+    }
+
+    signalingService.findMatch(userSessionRef.current.preferences).then(() => {
+      setIsMatchmakingPaused(false);
+    }).catch((error) => {
+      // The server never confirmed the request; let the auto-search try again
+      console.warn('Find match was not acknowledged:', error.message);
+      setSignalingState(prev => ({ ...prev, isSearching: false }));
+    });
   }, []);
 
   // End current call and find next user
@@ -75,6 +144,38 @@ export const useWebRTC = () => {
     }, 1000);
   }, [findMatch]);
 
+  // Block current partner so they are never matched again, then find next user
+  const blockUser = useCallback(() => {
+    webRTCService.endCall();
+    signalingService.blockCurrentPartner();
+
+    setTimeout(() => {
+      findMatch();
+    }, 1000);
+  }, [findMatch]);
+
+  // Report current partner to moderation, then find next user
+  const reportUser = useCallback((reason: ReportReason, details?: string) => {
+    webRTCService.endCall();
+    signalingService.reportCurrentPartner(reason, details);
+
+    setTimeout(() => {
+      findMatch();
+    }, 1000);
+  }, [findMatch]);
+
+  // Hide the maintenance banner until the server sends a new notice
+  const dismissMaintenanceNotice = useCallback(() => {
+    setMaintenanceNotice(null);
+  }, []);
+
+  // Change the interests we are matched on; applies from the next search
+  const setInterests = useCallback((next: string[]) => {
+    const normalized = normalizeInterests(next);
+    applyInterests(normalized);
+    setStoredValue<Partial<UserPreferences>>(STORAGE_KEYS.USER_PREFERENCES, { interests: normalized });
+  }, [applyInterests]);
+
   // End call completely
   const endCall = useCallback(() => {
     webRTCService.endCall();
@@ -114,6 +215,10 @@ export const useWebRTC = () => {
 
   // Cleanup
   const cleanup = useCallback(() => {
+    if (searchRetryTimerRef.current) {
+      clearTimeout(searchRetryTimerRef.current);
+      searchRetryTimerRef.current = null;
+    }
     webRTCService.dispose();
     signalingService.disconnect();
   }, []);
@@ -167,7 +272,7 @@ export const useWebRTC = () => {
     };
 
     const handleConnected = () => {
-      setWebRTCState(prev => ({ ...prev, isConnected: true, isConnecting: false }));
+      setWebRTCState(prev => ({ ...prev, isConnected: true, isConnecting: false, isReconnecting: false, callFailed: false }));
     };
 
     const handleConnecting = () => {
@@ -191,21 +296,26 @@ export const useWebRTC = () => {
 
     const handleReconnecting = () => {
       console.log('Connection is reconnecting...');
-      setWebRTCState(prev => ({ ...prev, isConnecting: true, isConnected: false }));
+      setWebRTCState(prev => ({ ...prev, isReconnecting: true, isConnected: false }));
     };
 
-    const handleConnectionError = (error: any) => {
-      console.error('Connection error:', error);
-      setWebRTCState(prev => ({ ...prev, error: error.message, isConnecting: false, isConnected: false }));
+    // ICE restarts gave up: leave the room so the auto-search finds a new partner.
+    // The server does not count leaving a call that never connected as a skip.
+    const handleCallFailed = (error: Error) => {
+      console.warn('Call failed:', error.message);
+      setWebRTCState(prev => ({ ...prev, isReconnecting: false, callFailed: true, error: error.message }));
+      signalingService.leaveCurrentMatch();
     };
 
     const handleCallEnded = () => {
       console.log('Call ended, preserving local stream');
       setRemoteStream(null);
+      setMatchReason(null);
       setWebRTCState(prev => ({ 
         ...prev, 
         isConnected: false, 
         isConnecting: false,
+        isReconnecting: false,
         hasRemoteStream: false,
         remoteStream: undefined,
         // Explicitly preserve local stream
@@ -227,8 +337,9 @@ export const useWebRTC = () => {
       setSignalingState(prev => ({ ...prev, isConnected: true }));
     };
 
-    const handleRegistrationSuccess = (data: any) => {
+    const handleRegistrationSuccess = (data: RegistrationSuccessPayload) => {
       console.log('Registration successful, starting search...', data);
+      userSessionRef.current.userId = data.userId;
       // Auto-start search after successful registration (only once)
       setTimeout(() => {
         const currentSignalingState = signalingService.getState();
@@ -244,6 +355,16 @@ export const useWebRTC = () => {
       }, 1000);
     };
 
+    // Reconnected to the same session; the call itself never stopped
+    const handleSessionResumed = (data: SessionResumedPayload) => {
+      console.log('Signaling session resumed, room:', data.roomId);
+      setSignalingState(prev => ({ ...prev, currentRoomId: data.roomId, isSearching: false }));
+    };
+
+    const handleLatency = (latencyMs: number) => {
+      setSignalingState(prev => ({ ...prev, latencyMs }));
+    };
+
     const handleSignalingDisconnected = () => {
       setSignalingState(prev => ({ ...prev, isConnected: false, isSearching: false }));
     };
@@ -252,17 +373,20 @@ export const useWebRTC = () => {
       setSignalingState(prev => ({ ...prev, isSearching: true }));
     };
 
-    const handleMatchFound = async (data: { roomId: string; peerId: string }) => {
+    const handleMatchFound = async (data: MatchFoundPayload) => {
       console.log('Match found:', data);
+      setMatchReason(data.reason ?? null);
       setSignalingState(prev => ({ 
         ...prev, 
         isSearching: false, 
         currentRoomId: data.roomId 
       }));
       
-      // Use socket ID to determine who should initiate offer (alphabetically smaller ID goes first)
+      // Use socket ID to determine who should initiate offer (alphabetically smaller ID goes first).
+      // The offerer is the impolite peer for perfect negotiation.
       const mySocketId = signalingService.getSocketId();
-      const shouldCreateOffer = mySocketId && mySocketId < data.peerId;
+      const shouldCreateOffer = !!mySocketId && mySocketId < data.peerId;
+      webRTCService.startSession(data.peerId, !shouldCreateOffer);
       
       if (shouldCreateOffer) {
         // Add a small delay to prevent race condition
@@ -283,57 +407,75 @@ export const useWebRTC = () => {
     };
 
     const handleLeftRoom = () => {
+      setMatchReason(null);
       setSignalingState(prev => ({ ...prev, currentRoomId: undefined, isSearching: false }));
     };
 
+    const handleRoomError = (error: RoomErrorPayload) => {
+      if (error.code === 'banned') {
+        setSignalingState(prev => ({ ...prev, isSearching: false, error: error.message }));
+        Alert.alert(
+          'บัญชีถูกระงับชั่วคราว',
+          'คุณถูกรายงานจากผู้ใช้หลายคน กรุณาลองใหม่ภายหลัง',
+          [{ text: 'ตกลง' }]
+        );
+      } else if (error.code === 'matchmaking-disabled') {
+        setIsMatchmakingPaused(true);
+        setSignalingState(prev => ({ ...prev, isSearching: false }));
+      }
+    };
+
+    const handleMaintenanceNotice = (notice: MaintenanceNoticePayload) => {
+      setMaintenanceNotice(notice.message ? notice : null);
+    };
+
+    const handleRateLimited = (data: RateLimitedPayload) => {
+      console.warn(`Rate limited on ${data.type}, retry in ${data.retryAfterMs}ms`);
+      if (data.type === 'find-match') {
+        setSignalingState(prev => ({
+          ...prev,
+          isSearching: false,
+          rateLimitedUntil: Date.now() + data.retryAfterMs,
+        }));
+      }
+    };
+
     const handleNoMatch = () => {
       console.log('No match found, continuing search...');
       // Keep searching automatically
     };
 
-    // Register WebRTC listeners
-    webRTCService.on('localStream', handleLocalStream);
-    webRTCService.on('remoteStream', handleRemoteStream);
-    webRTCService.on('connected', handleConnected);
-    webRTCService.on('connecting', handleConnecting);
-    webRTCService.on('disconnected', handleDisconnected);
-    webRTCService.on('reconnecting', handleReconnecting);
-    webRTCService.on('connectionError', handleConnectionError);
-    webRTCService.on('callEnded', handleCallEnded);
-    webRTCService.on('audioToggled', handleAudioToggled);
-    webRTCService.on('videoToggled', handleVideoToggled);
-
-    // Register Signaling listeners
-    signalingService.on('connected', handleSignalingConnected);
-    signalingService.on('registration-success', handleRegistrationSuccess);
-    signalingService.on('disconnected', handleSignalingDisconnected);
-    signalingService.on('search-started', handleSearchStarted);
-    signalingService.on('match-found', handleMatchFound);
-    signalingService.on('left-room', handleLeftRoom);
-    signalingService.on('no-match', handleNoMatch);
+    const unsubscribers = [
+      // WebRTC listeners
+      webRTCService.on('localStream', handleLocalStream),
+      webRTCService.on('remoteStream', handleRemoteStream),
+      webRTCService.on('connected', handleConnected),
+      webRTCService.on('connecting', handleConnecting),
+      webRTCService.on('disconnected', handleDisconnected),
+      webRTCService.on('reconnecting', handleReconnecting),
+      webRTCService.on('callFailed', handleCallFailed),
+      webRTCService.on('callEnded', handleCallEnded),
+      webRTCService.on('audioToggled', handleAudioToggled),
+      webRTCService.on('videoToggled', handleVideoToggled),
+
+      // Signaling listeners
+      signalingService.on('connected', handleSignalingConnected),
+      signalingService.on('registration-success', handleRegistrationSuccess),
+      signalingService.on('disconnected', handleSignalingDisconnected),
+      signalingService.on('session-resumed', handleSessionResumed),
+      signalingService.on('latency', handleLatency),
+      signalingService.on('search-started', handleSearchStarted),
+      signalingService.on('match-found', handleMatchFound),
+      signalingService.on('left-room', handleLeftRoom),
+      signalingService.on('no-match', handleNoMatch),
+      signalingService.on('room-error', handleRoomError),
+      signalingService.on('rate-limited', handleRateLimited),
+      signalingService.on('maintenance-notice', handleMaintenanceNotice),
+    ];
 
     // Cleanup function
     return () => {
-      // Remove WebRTC listeners
-      webRTCService.off('localStream', handleLocalStream);
-      webRTCService.off('remoteStream', handleRemoteStream);
-          webRTCService.off('connected', handleConnected);
-    webRTCService.off('connecting', handleConnecting);
-    webRTCService.off('disconnected', handleDisconnected);
-    webRTCService.off('reconnecting', handleReconnecting);
-    webRTCService.off('connectionError', handleConnectionError);
-    webRTCService.off('callEnded', handleCallEnded);
-      webRTCService.off('audioToggled', handleAudioToggled);
-      webRTCService.off('videoToggled', handleVideoToggled);
-
-      // Remove Signaling listeners
-      signalingService.off('connected', handleSignalingConnected);
-      signalingService.off('registration-success', handleRegistrationSuccess);
-      signalingService.off('disconnected', handleSignalingDisconnected);
-      signalingService.off('search-started', handleSearchStarted);
-      signalingService.off('match-found', handleMatchFound);
-      signalingService.off('left-room', handleLeftRoom);
-      signalingService.off('no-match', handleNoMatch);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
     };
   }, []);
 
@@ -347,6 +489,16 @@ export const useWebRTC = () => {
     };
   }, [initialize, cleanup]);
 
+  // Drop the maintenance notice once it is no longer relevant
+  useEffect(() => {
+    if (!maintenanceNotice?.expiresAt) {
+      return;
+    }
+
+    const timeoutId = setTimeout(() => setMaintenanceNotice(null), Math.max(0, maintenanceNotice.expiresAt - Date.now()));
+    return () => clearTimeout(timeoutId);
+  }, [maintenanceNotice]);
+
   // Manual check if localStream is missing after initialization
   useEffect(() => {
     const checkLocalStream = async () => {
@@ -377,22 +529,33 @@ export const useWebRTC = () => {
     remoteStream,
     isAudioEnabled,
     isVideoEnabled,
+    matchReason,
+    maintenanceNotice,
+    interests,
     
     // Actions
     initialize,
     findMatch,
     nextUser,
+    blockUser,
+    reportUser,
     endCall,
     toggleAudio,
     toggleVideo,
     switchCamera,
     boostAudio,
+    dismissMaintenanceNotice,
+    setInterests,
     cleanup,
     
     // Status getters
     isConnected: webrtcState.isConnected,
     isConnecting: webrtcState.isConnecting,
+    isReconnecting: !!webrtcState.isReconnecting,
+    callFailed: !!webrtcState.callFailed,
     isSearching: signalingState.isSearching,
+    isRateLimited: !!signalingState.rateLimitedUntil,
+    isMatchmakingPaused,
     hasLocalStream: webrtcState.hasLocalStream,
     hasRemoteStream: webrtcState.hasRemoteStream,
   };
@@ -4,6 +4,7 @@ import type { RootStackParamList } from '@/types/navigation';
 
 // Screensx
 import HomeScreen from '@/screens/HomeScreen';
+import DeveloperScreen from '@/screens/DeveloperScreen';
 // Constants
 import { theme, SCREEN_NAMES } from '@/constants';
 
@@ -26,6 +27,14 @@ const AppNavigator: React.FC = () => {
           headerShown: false,
         }}
       />
+      <Stack.Screen
+        name={SCREEN_NAMES.DEVELOPER}
+        component={DeveloperScreen}
+        options={{
+          title: 'Developer',
+          headerShown: false,
+        }}
+      />
       {/* Add more stack screens here */}
     </Stack.Navigator>
   );
@@ -0,0 +1,136 @@
+import * as Updates from 'expo-updates';
+import React from 'react';
+import { DevSettings, SafeAreaView, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import {
+  AppEnvironment,
+  clearDeveloperOverride,
+  ENVIRONMENT_PROFILES,
+  getDeveloperOverride,
+  getRuntimeConfig,
+  previewRuntimeConfig,
+  saveDeveloperOverride,
+  SignalingTransportKind,
+} from '../config';
+import { developerScreenStyles as styles } from '../styles/developerScreenStyles';
+import type { RootStackScreenProps } from '../types/navigation';
+
+const ENVIRONMENTS = Object.keys(ENVIRONMENT_PROFILES) as AppEnvironment[];
+const TRANSPORTS: SignalingTransportKind[] = ['websocket', 'socket.io'];
+
+// Services are already connected with the old endpoints, so start fresh
+const reloadApp = async () => {
+  try {
+    await Updates.reloadAsync();
+  } catch {
+    // expo-updates is unavailable in Expo Go and dev clients
+    DevSettings.reload();
+  }
+};
+
+// Hidden screen for pointing a device build at another signaling/API endpoint
+const DeveloperScreen = ({ navigation }: RootStackScreenProps<'Developer'>) => {
+  const initial = getRuntimeConfig();
+  const [environment, setEnvironment] = React.useState<AppEnvironment>(initial.environment);
+  const [signalingUrl, setSignalingUrl] = React.useState(initial.signalingUrl);
+  const [signalingTransport, setSignalingTransport] = React.useState<SignalingTransportKind>(initial.signalingTransport);
+  const [apiUrl, setApiUrl] = React.useState(initial.apiUrl);
+
+  const selectEnvironment = (next: AppEnvironment) => {
+    const profile = previewRuntimeConfig({ environment: next });
+    setEnvironment(next);
+    setSignalingUrl(profile.signalingUrl);
+    setSignalingTransport(profile.signalingTransport);
+    setApiUrl(profile.apiUrl);
+  };
+
+  const handleSave = async () => {
+    await saveDeveloperOverride({
+      environment,
+      signalingUrl: signalingUrl.trim(),
+      signalingTransport,
+      apiUrl: apiUrl.trim(),
+    });
+    await reloadApp();
+  };
+
+  const handleReset = async () => {
+    await clearDeveloperOverride();
+    await reloadApp();
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.title}>Developer settings</Text>
+        <Text style={styles.subtitle}>
+          {getDeveloperOverride() ? 'Using a device override' : 'Using the build configuration'}
+        </Text>
+
+        <Text style={styles.label}>Environment</Text>
+        <View style={styles.optionRow}>
+          {ENVIRONMENTS.map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.option, option === environment && styles.optionSelected]}
+              onPress={() => selectEnvironment(option)}
+            >
+              <Text style={styles.optionText}>{option}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Signaling URL</Text>
+        <TextInput
+          style={styles.input}
+          value={signalingUrl}
+          onChangeText={setSignalingUrl}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+
+        <Text style={styles.label}>Signaling transport</Text>
+        <View style={styles.optionRow}>
+          {TRANSPORTS.map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.option, option === signalingTransport && styles.optionSelected]}
+              onPress={() => setSignalingTransport(option)}
+            >
+              <Text style={styles.optionText}>{option}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>API URL</Text>
+        <TextInput
+          style={styles.input}
+          value={apiUrl}
+          onChangeText={setApiUrl}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+
+        <Text style={styles.buildInfo}>
+          Build: {process.env.EXPO_PUBLIC_APP_ENV ?? (__DEV__ ? 'development' : 'production')}
+          {Updates.channel ? ` · channel ${Updates.channel}` : ''}
+        </Text>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={handleSave}>
+          <Text style={styles.primaryButtonText}>Save and reload</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleReset}>
+          <Text style={styles.secondaryButtonText}>Reset to build defaults</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.optionText}>Back</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default DeveloperScreen;
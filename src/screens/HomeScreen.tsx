@@ -1,12 +1,19 @@
+import { useNavigation } from '@react-navigation/native';
 import React from 'react';
-import { SafeAreaView, StatusBar } from 'react-native';
+import { Pressable, SafeAreaView, StatusBar } from 'react-native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
-import { MainVideoArea, SelfVideoArea } from '../components/video';
-import { useCallState, useSwipeGesture, useUserSwipe } from '../hooks';
+import { getRuntimeConfig } from '../config';
+import { SCREEN_NAMES } from '../constants';
+import { ChatOverlay, InterestsModal, MainVideoArea, MaintenanceBanner, ReportUserModal, SelfVideoArea } from '../components/video';
+import { useCallQuality, useCallState, useChat, useSwipeGesture, useUserSwipe, useVideoQuality } from '../hooks';
 import { useWebRTC } from '../hooks/useWebRTC';
 import { homeScreenStyles } from '../styles/homeScreenStyles';
+import { ReportReason } from '../types/webrtc';
 
 const HomeScreen = () => {
+  const navigation = useNavigation();
+  const { features } = getRuntimeConfig();
+
   // Custom hooks
   const { callState, handleMute, handleVideo, handleEndCall } = useCallState();
   const { swipeState, currentUser, nextUser, selectNextUser } = useUserSwipe();
@@ -23,19 +30,52 @@ const HomeScreen = () => {
     remoteStream,
     isConnected,
     isConnecting,
+    isReconnecting,
+    callFailed,
     isSearching,
+    isRateLimited,
+    isMatchmakingPaused,
     isAudioEnabled,
     isVideoEnabled,
+    matchReason,
+    maintenanceNotice,
+    interests,
     signalingState,
     findMatch,
     nextUser: nextWebRTCUser,
+    blockUser,
+    reportUser,
     endCall,
     toggleAudio,
     toggleVideo,
     switchCamera,
     boostAudio,
+    dismissMaintenanceNotice,
+    setInterests,
   } = useWebRTC();
 
+  // Connection quality from WebRTC stats
+  const { quality: callQuality } = useCallQuality();
+
+  // Persisted outgoing video quality profile
+  const { profile: qualityProfile, cycleProfile } = useVideoQuality();
+
+  // In-call text chat
+  const { messages: chatMessages, isReady: isChatReady, sendMessage } = useChat();
+
+  const [isReportVisible, setIsReportVisible] = React.useState(false);
+  const [isInterestsVisible, setIsInterestsVisible] = React.useState(false);
+
+  const handleReport = (reason: ReportReason) => {
+    setIsReportVisible(false);
+    reportUser(reason);
+  };
+
+  const handleSaveInterests = (next: string[]) => {
+    setIsInterestsVisible(false);
+    setInterests(next);
+  };
+
   const handleNext = () => {
     // Use WebRTC next user instead of mock swipe
     nextWebRTCUser();
@@ -109,9 +149,24 @@ const HomeScreen = () => {
           remoteStream={remoteStream}
           isConnected={isConnected}
           isConnecting={isConnecting}
+          isReconnecting={isReconnecting}
+          callFailed={callFailed}
+          isRateLimited={isRateLimited}
           isSearching={isSearching}
+          matchReason={matchReason}
+          onReport={() => setIsReportVisible(true)}
+          callQuality={callQuality}
         />
 
+        {/* Text chat on top of the remote video */}
+        {features.textChat && (
+          <ChatOverlay
+            messages={chatMessages}
+            isReady={isChatReady}
+            onSend={sendMessage}
+          />
+        )}
+
         {/* Self Video - Picture in Picture */}
         <SelfVideoArea
           callState={callState}
@@ -119,12 +174,46 @@ const HomeScreen = () => {
           onVideo={handleVideoWebRTC}
           onEndCall={handleEndCallWebRTC}
           onNext={handleNext}
+          onBlock={blockUser}
           localStream={localStream}
           isVideoEnabled={isVideoEnabled}
           isAudioEnabled={isAudioEnabled}
           onSwitchCamera={switchCamera}
           onBoostAudio={boostAudio}
+          qualityProfile={qualityProfile}
+          onChangeQualityProfile={cycleProfile}
+          interestCount={interests.length}
+          onEditInterests={() => setIsInterestsVisible(true)}
+        />
+
+        {/* Operator notice; matchmaking pauses show a banner even without one */}
+        {maintenanceNotice?.message ? (
+          <MaintenanceBanner message={maintenanceNotice.message} onDismiss={dismissMaintenanceNotice} />
+        ) : isMatchmakingPaused ? (
+          <MaintenanceBanner message="ระบบจับคู่ปิดปรับปรุงชั่วคราว จะค้นหาให้อีกครั้งโดยอัตโนมัติ" />
+        ) : null}
+
+        <ReportUserModal
+          visible={isReportVisible}
+          onSelect={handleReport}
+          onCancel={() => setIsReportVisible(false)}
+        />
+
+        <InterestsModal
+          visible={isInterestsVisible}
+          interests={interests}
+          onSave={handleSaveInterests}
+          onCancel={() => setIsInterestsVisible(false)}
         />
+
+        {/* Hidden developer menu: long-press the top-left corner */}
+        {features.developerMenu && (
+          <Pressable
+            style={homeScreenStyles.developerHotspot}
+            delayLongPress={1500}
+            onLongPress={() => navigation.navigate(SCREEN_NAMES.DEVELOPER)}
+          />
+        )}
       </SafeAreaView>
     </GestureHandlerRootView>
   );
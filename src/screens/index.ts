@@ -1,2 +1,3 @@
 // Barrel export for all screens
 export { default as HomeScreen } from './HomeScreen';
+export { default as DeveloperScreen } from './DeveloperScreen';
@@ -0,0 +1,69 @@
+import { FakeSignalingServer } from '../../testing/loopbackTransport';
+import { SignalingServiceEvents } from '../../types/webrtc';
+import SignalingService from '../signalingService';
+
+const OFFER = { type: 'offer' as const, sdp: 'v=0 offer' };
+
+let server: FakeSignalingServer;
+let clients: SignalingService[];
+
+beforeEach(() => {
+  server = new FakeSignalingServer();
+  clients = [];
+});
+
+afterEach(() => {
+  clients.forEach(client => client.disconnect());
+});
+
+// A SignalingService talking to the fake server, registered and ready
+const connectClient = async (userId: string): Promise<SignalingService> => {
+  const client = new SignalingService();
+  clients.push(client);
+  client.useTransport(server.createTransport);
+  client.useAuthTokens({ getToken: async () => `token-${userId}`, invalidate: async () => {} });
+
+  const registered = nextEvent(client, 'registration-success');
+  await client.connect({ userId, isReady: true });
+  await registered;
+  return client;
+};
+
+const nextEvent = <K extends keyof SignalingServiceEvents>(
+  client: SignalingService,
+  event: K
+): Promise<SignalingServiceEvents[K]> => new Promise(resolve => client.once(event, resolve));
+
+test('matches two clients and relays signaling between them', async () => {
+  const alice = await connectClient('alice');
+  const bob = await connectClient('bob');
+
+  const aliceMatch = nextEvent(alice, 'match-found');
+  const bobMatch = nextEvent(bob, 'match-found');
+  await alice.findMatch();
+  await bob.findMatch();
+
+  const { roomId, peerId } = await aliceMatch;
+  expect(peerId).toBe(bob.getSocketId());
+  expect((await bobMatch).roomId).toBe(roomId);
+  expect(alice.getCurrentRoomId()).toBe(roomId);
+
+  const offer = nextEvent(bob, 'offer');
+  alice.sendOffer(OFFER, peerId);
+  expect(await offer).toMatchObject({ offer: OFFER, from: alice.getSocketId() });
+});
+
+test('tells the partner when a client leaves the room', async () => {
+  const alice = await connectClient('alice');
+  const bob = await connectClient('bob');
+  const matched = nextEvent(bob, 'match-found');
+  await alice.findMatch();
+  await bob.findMatch();
+  await matched;
+
+  const userLeft = nextEvent(bob, 'user-left');
+  alice.leaveCurrentMatch();
+
+  expect(await userLeft).toEqual({ from: alice.getSocketId() });
+  expect(alice.getCurrentRoomId()).toBeUndefined();
+});
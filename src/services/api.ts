@@ -1,5 +1,10 @@
-import type { ApiResponse } from '@/types';
-import { API_BASE_URL, API_TIMEOUT } from '@/constants';
+import type { ApiResponse, AuthSession } from '@/types';
+import { API_TIMEOUT, STORAGE_KEYS } from '@/constants';
+import { getRuntimeConfig } from '@/config';
+import { getStoredValue, removeStoredValue, setStoredValue } from '@/utils/storage';
+
+// Refresh the session token when it has less than this long left
+const TOKEN_REFRESH_MARGIN = 24 * 60 * 60 * 1000;
 
 interface RequestConfig {
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
@@ -8,14 +13,21 @@ interface RequestConfig {
 }
 
 class ApiService {
-  private baseUrl: string;
+  private fixedBaseUrl?: string;
   private timeout: number;
+  private session: AuthSession | null = null;
 
-  constructor(baseUrl: string = API_BASE_URL, timeout: number = API_TIMEOUT) {
-    this.baseUrl = baseUrl;
+  // Without an explicit base URL the runtime config is read on every request,
+  // so a developer override applies without recreating the service.
+  constructor(baseUrl?: string, timeout: number = API_TIMEOUT) {
+    this.fixedBaseUrl = baseUrl;
     this.timeout = timeout;
   }
 
+  private get baseUrl(): string {
+    return this.fixedBaseUrl ?? getRuntimeConfig().apiUrl;
+  }
+
   private async request<T>(
     endpoint: string,
     config: RequestConfig = {}
@@ -77,6 +89,47 @@ class ApiService {
   async delete<T>(endpoint: string, headers?: Record<string, string>): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, { method: 'DELETE', headers });
   }
+
+  // Session token for the signaling server. The stored token is reused (and
+  // refreshed when close to expiry); otherwise an anonymous one is requested.
+  async getSessionToken(): Promise<AuthSession> {
+    if (!this.session) {
+      this.session = await getStoredValue<AuthSession>(STORAGE_KEYS.USER_TOKEN);
+    }
+
+    const session = this.session;
+    if (session && session.expiresAt - Date.now() > TOKEN_REFRESH_MARGIN) {
+      return session;
+    }
+
+    if (session && session.expiresAt > Date.now()) {
+      try {
+        return await this.storeSession(
+          await this.post<AuthSession>('/auth/refresh', undefined, { Authorization: `Bearer ${session.token}` })
+        );
+      } catch (error) {
+        console.warn('Token refresh failed, requesting a new anonymous token:', error);
+      }
+    }
+
+    return this.storeSession(await this.post<AuthSession>('/auth/anonymous'));
+  }
+
+  // Forget a token the server rejected
+  async clearSessionToken(): Promise<void> {
+    this.session = null;
+    await removeStoredValue(STORAGE_KEYS.USER_TOKEN);
+  }
+
+  private async storeSession(response: ApiResponse<AuthSession>): Promise<AuthSession> {
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Authentication failed');
+    }
+
+    this.session = response.data;
+    await setStoredValue(STORAGE_KEYS.USER_TOKEN, response.data);
+    return response.data;
+  }
 }
 
 export const apiService = new ApiService();
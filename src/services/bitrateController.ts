@@ -0,0 +1,145 @@
+import { RTCRtpSender } from 'react-native-webrtc';
+import { CallQualitySample, VideoEncodingStep, VideoQualityProfile } from '../types/webrtc';
+
+// Encoding steps from best to worst. Adaptation moves one step at a time.
+export const VIDEO_ENCODING_LADDER: VideoEncodingStep[] = [
+  { maxBitrate: 2_500_000, scaleResolutionDownBy: 1, maxFramerate: 30 },
+  { maxBitrate: 1_500_000, scaleResolutionDownBy: 1, maxFramerate: 30 },
+  { maxBitrate: 900_000, scaleResolutionDownBy: 1.5, maxFramerate: 24 },
+  { maxBitrate: 500_000, scaleResolutionDownBy: 2, maxFramerate: 20 },
+  { maxBitrate: 250_000, scaleResolutionDownBy: 3, maxFramerate: 15 },
+  { maxBitrate: 150_000, scaleResolutionDownBy: 4, maxFramerate: 10 },
+];
+
+// Best ladder step each profile is allowed to climb to
+export const PROFILE_CEILINGS: Record<VideoQualityProfile, number> = {
+  hd: 0,
+  balanced: 2,
+  'data-saver': 4,
+};
+
+export const DEFAULT_VIDEO_QUALITY_PROFILE: VideoQualityProfile = 'balanced';
+
+const CONGESTION_PACKET_LOSS = 0.05;
+const HEALTHY_PACKET_LOSS = 0.02;
+// Step down when the estimated uplink can't carry this share of the current cap
+const CONGESTION_BANDWIDTH_RATIO = 0.7;
+// Consecutive healthy samples required before stepping back up
+const STEP_UP_AFTER_SAMPLES = 5;
+// Samples to wait after any change before stepping down again
+const STEP_DOWN_COOLDOWN_SAMPLES = 2;
+// Samples after a reset during which the uplink estimate is ignored. It starts
+// low and only ramps up over the first seconds of a call.
+const BANDWIDTH_WARMUP_SAMPLES = 3;
+
+// Steps outgoing video quality down under outbound packet loss or low
+// estimated bandwidth, and back up once the uplink has been healthy for a
+// while. Loss on incoming media says nothing about our uplink and is ignored.
+export class BitrateController {
+  private profile: VideoQualityProfile = DEFAULT_VIDEO_QUALITY_PROFILE;
+  private stepIndex = PROFILE_CEILINGS[DEFAULT_VIDEO_QUALITY_PROFILE];
+  private healthySamples = 0;
+  private samplesSinceChange = 0;
+  private samplesSinceReset = 0;
+
+  constructor(
+    private readonly getSenders: () => RTCRtpSender[],
+    private readonly onStepChanged?: (step: VideoEncodingStep, profile: VideoQualityProfile) => void
+  ) {}
+
+  getProfile(): VideoQualityProfile {
+    return this.profile;
+  }
+
+  getCurrentStep(): VideoEncodingStep {
+    return VIDEO_ENCODING_LADDER[this.stepIndex];
+  }
+
+  async setProfile(profile: VideoQualityProfile): Promise<void> {
+    this.profile = profile;
+    await this.reset();
+  }
+
+  // Start again from the profile ceiling, e.g. for a new call
+  async reset(): Promise<void> {
+    this.stepIndex = PROFILE_CEILINGS[this.profile];
+    this.healthySamples = 0;
+    this.samplesSinceChange = 0;
+    this.samplesSinceReset = 0;
+    await this.apply();
+  }
+
+  async handleSample(sample: CallQualitySample): Promise<void> {
+    this.samplesSinceChange++;
+    this.samplesSinceReset++;
+    const current = this.getCurrentStep();
+    const availableBitrate =
+      this.samplesSinceReset > BANDWIDTH_WARMUP_SAMPLES ? sample.availableOutgoingBitrate : undefined;
+
+    // Unknown until the peer's first receiver report arrives
+    const lossRate = sample.outboundPacketLossRate;
+
+    const congested =
+      (lossRate !== undefined && lossRate > CONGESTION_PACKET_LOSS) ||
+      (availableBitrate !== undefined && availableBitrate < current.maxBitrate * CONGESTION_BANDWIDTH_RATIO);
+
+    if (congested) {
+      this.healthySamples = 0;
+      if (this.stepIndex < VIDEO_ENCODING_LADDER.length - 1 && this.samplesSinceChange >= STEP_DOWN_COOLDOWN_SAMPLES) {
+        await this.changeStep(this.stepIndex + 1);
+      }
+      return;
+    }
+
+    if (lossRate === undefined || lossRate >= HEALTHY_PACKET_LOSS) {
+      this.healthySamples = 0;
+      return;
+    }
+
+    this.healthySamples++;
+    if (this.healthySamples < STEP_UP_AFTER_SAMPLES || this.stepIndex <= PROFILE_CEILINGS[this.profile]) {
+      return;
+    }
+
+    // Only climb if the uplink estimate (when known) can carry the next step
+    const next = VIDEO_ENCODING_LADDER[this.stepIndex - 1];
+    if (availableBitrate === undefined || availableBitrate >= next.maxBitrate) {
+      await this.changeStep(this.stepIndex - 1);
+    }
+  }
+
+  private async changeStep(index: number): Promise<void> {
+    console.log(`Video quality step ${this.stepIndex} -> ${index}`);
+    this.stepIndex = index;
+    this.healthySamples = 0;
+    this.samplesSinceChange = 0;
+    await this.apply();
+  }
+
+  // Push the current step into every video sender's encoding parameters
+  private async apply(): Promise<void> {
+    const step = this.getCurrentStep();
+    const videoSenders = this.getSenders().filter(sender => sender.track?.kind === 'video');
+
+    for (const sender of videoSenders) {
+      try {
+        const parameters = sender.getParameters();
+        if (!parameters.encodings || parameters.encodings.length === 0) {
+          continue;
+        }
+
+        parameters.encodings.forEach(encoding => {
+          encoding.maxBitrate = step.maxBitrate;
+          encoding.scaleResolutionDownBy = step.scaleResolutionDownBy;
+          encoding.maxFramerate = step.maxFramerate;
+        });
+
+        await sender.setParameters(parameters);
+      } catch (error) {
+        console.error('Failed to apply video encoding parameters:', error);
+      }
+    }
+
+    this.onStepChanged?.(step, this.profile);
+  }
+}
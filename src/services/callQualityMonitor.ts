@@ -0,0 +1,233 @@
+import { CallQualityLevel, CallQualitySample } from '../types/webrtc';
+
+interface CallQualityMonitorOptions {
+  intervalMs?: number;
+  windowSize?: number;
+  onSample?: (sample: CallQualitySample) => void;
+  onQualityChanged?: (quality: CallQualityLevel, sample: CallQualitySample) => void;
+}
+
+// Cumulative counters from the previous poll, used to compute deltas
+interface StatsTotals {
+  timestamp: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+  packetsSent: number;
+  // Our packets the remote receiver reports as lost
+  remotePacketsLost: number;
+}
+
+// Thresholds for classifying a call as fair or poor
+const QUALITY_THRESHOLDS = {
+  poor: { packetLossRate: 0.1, roundTripTime: 500, jitter: 100 },
+  fair: { packetLossRate: 0.03, roundTripTime: 250, jitter: 50 },
+};
+
+// Number of recent samples averaged before classifying, to avoid flapping
+const CLASSIFY_SAMPLES = 3;
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+type QualityInputs = Pick<CallQualitySample, 'packetLossRate' | 'jitter' | 'roundTripTime'>;
+
+export const classifyQuality = (samples: QualityInputs[]): CallQualityLevel => {
+  const recent = samples.slice(-CLASSIFY_SAMPLES);
+  const packetLossRate = average(recent.map(s => s.packetLossRate));
+  const jitter = average(recent.map(s => s.jitter));
+  const roundTripTime = average(recent.map(s => s.roundTripTime ?? 0));
+
+  const exceeds = (limits: typeof QUALITY_THRESHOLDS.poor) =>
+    packetLossRate > limits.packetLossRate ||
+    roundTripTime > limits.roundTripTime ||
+    jitter > limits.jitter;
+
+  if (exceeds(QUALITY_THRESHOLDS.poor)) return 'poor';
+  if (exceeds(QUALITY_THRESHOLDS.fair)) return 'fair';
+  return 'good';
+};
+
+// Collect the stats entries of a report into an array. React Native WebRTC
+// resolves getStats() with a Map, browsers with an RTCStatsReport.
+const toStatsList = (report: any): any[] => {
+  const stats: any[] = [];
+  report?.forEach?.((stat: any) => stats.push(stat));
+  return stats;
+};
+
+const readTotals = (stats: any[], timestamp: number): StatsTotals => {
+  const totals: StatsTotals = {
+    timestamp,
+    bytesReceived: 0,
+    bytesSent: 0,
+    packetsReceived: 0,
+    packetsLost: 0,
+    packetsSent: 0,
+    remotePacketsLost: 0,
+  };
+
+  stats.forEach(stat => {
+    if (stat.type === 'inbound-rtp') {
+      totals.bytesReceived += stat.bytesReceived ?? 0;
+      totals.packetsReceived += stat.packetsReceived ?? 0;
+      totals.packetsLost += stat.packetsLost ?? 0;
+    } else if (stat.type === 'outbound-rtp') {
+      totals.bytesSent += stat.bytesSent ?? 0;
+      totals.packetsSent += stat.packetsSent ?? 0;
+    } else if (stat.type === 'remote-inbound-rtp') {
+      totals.remotePacketsLost += stat.packetsLost ?? 0;
+    }
+  });
+
+  return totals;
+};
+
+const findSelectedCandidatePair = (stats: any[]): any | undefined => {
+  const transport = stats.find(stat => stat.type === 'transport' && stat.selectedCandidatePairId);
+  if (transport) {
+    return stats.find(stat => stat.id === transport.selectedCandidatePairId);
+  }
+  return stats.find(stat => stat.type === 'candidate-pair' && stat.nominated && stat.state === 'succeeded');
+};
+
+// Turn a stats report into a sample, given the totals from the previous poll
+export const buildSample = (
+  report: any,
+  previous: StatsTotals | null,
+  timestamp: number
+): { sample: Omit<CallQualitySample, 'quality'>; totals: StatsTotals } => {
+  const stats = toStatsList(report);
+  const totals = readTotals(stats, timestamp);
+
+  const seconds = previous ? (timestamp - previous.timestamp) / 1000 : 0;
+  const delta = (key: keyof StatsTotals) => (previous ? Math.max(0, totals[key] - previous[key]) : 0);
+
+  const packetsLost = delta('packetsLost');
+  const packetsReceived = delta('packetsReceived');
+  const packetsExpected = packetsLost + packetsReceived;
+
+  // Loss on the way to the peer, from their receiver reports. fractionLost
+  // covers the latest report interval; without it, fall back to the counters.
+  const fractionsLost = stats
+    .filter(stat => stat.type === 'remote-inbound-rtp' && typeof stat.fractionLost === 'number')
+    .map(stat => stat.fractionLost as number);
+  const packetsSent = delta('packetsSent');
+  let outboundPacketLossRate: number | undefined;
+  if (fractionsLost.length > 0) {
+    outboundPacketLossRate = Math.max(...fractionsLost);
+  } else if (stats.some(stat => stat.type === 'remote-inbound-rtp') && packetsSent > 0) {
+    outboundPacketLossRate = Math.min(1, delta('remotePacketsLost') / packetsSent);
+  }
+
+  const jitterSeconds = Math.max(
+    0,
+    ...stats.filter(stat => stat.type === 'inbound-rtp').map(stat => stat.jitter ?? 0)
+  );
+
+  const pair = findSelectedCandidatePair(stats);
+  const localCandidate = pair && stats.find(stat => stat.id === pair.localCandidateId);
+  const remoteCandidate = pair && stats.find(stat => stat.id === pair.remoteCandidateId);
+
+  return {
+    totals,
+    sample: {
+      timestamp,
+      inboundBitrate: seconds > 0 ? (delta('bytesReceived') * 8) / seconds : 0,
+      outboundBitrate: seconds > 0 ? (delta('bytesSent') * 8) / seconds : 0,
+      packetLossRate: packetsExpected > 0 ? packetsLost / packetsExpected : 0,
+      outboundPacketLossRate,
+      jitter: jitterSeconds * 1000,
+      roundTripTime: pair?.currentRoundTripTime !== undefined ? pair.currentRoundTripTime * 1000 : undefined,
+      availableOutgoingBitrate: pair?.availableOutgoingBitrate,
+      candidatePair: pair && {
+        localCandidateType: localCandidate?.candidateType,
+        remoteCandidateType: remoteCandidate?.candidateType,
+        protocol: localCandidate?.protocol,
+        relayed: localCandidate?.candidateType === 'relay' || remoteCandidate?.candidateType === 'relay',
+      },
+    },
+  };
+};
+
+// Polls RTCPeerConnection.getStats() while a call is connected and keeps a
+// rolling window of quality samples.
+export class CallQualityMonitor {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private previous: StatsTotals | null = null;
+  private samples: CallQualitySample[] = [];
+  private quality: CallQualityLevel | null = null;
+  private readonly intervalMs: number;
+  private readonly windowSize: number;
+
+  constructor(
+    private readonly getStats: () => Promise<any>,
+    private readonly options: CallQualityMonitorOptions = {}
+  ) {
+    this.intervalMs = options.intervalMs ?? 2000;
+    this.windowSize = options.windowSize ?? 30;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.poll().catch(error => console.error('Failed to collect call stats:', error));
+    }, this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.previous = null;
+    this.samples = [];
+    this.quality = null;
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  getSamples(): CallQualitySample[] {
+    return [...this.samples];
+  }
+
+  getLatestSample(): CallQualitySample | null {
+    return this.samples[this.samples.length - 1] ?? null;
+  }
+
+  getQuality(): CallQualityLevel | null {
+    return this.quality;
+  }
+
+  private async poll(): Promise<void> {
+    const report = await this.getStats();
+    // The monitor may have been stopped while getStats() was in flight
+    if (!this.timer) {
+      return;
+    }
+
+    const { sample, totals } = buildSample(report, this.previous, Date.now());
+    const isFirstPoll = this.previous === null;
+    this.previous = totals;
+
+    // The first poll only establishes a baseline for the deltas
+    if (isFirstPoll) {
+      return;
+    }
+
+    const fullSample: CallQualitySample = { ...sample, quality: classifyQuality([...this.samples, sample]) };
+
+    this.samples = [...this.samples, fullSample].slice(-this.windowSize);
+    this.options.onSample?.(fullSample);
+
+    if (fullSample.quality !== this.quality) {
+      this.quality = fullSample.quality;
+      this.options.onQualityChanged?.(fullSample.quality, fullSample);
+    }
+  }
+}
@@ -3,3 +3,4 @@ export * from './api';
 export { signalingService } from './signalingService';
 export { webRTCService } from './webrtcService';
 
+export * from './transports';
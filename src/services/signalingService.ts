@@ -1,101 +1,205 @@
-import { SignalingMessage, SignalingState, UserSession } from '../types/webrtc';
+import {
+  CLOSE_CODES,
+  createEnvelope,
+  MAX_MESSAGE_BYTES,
+  PROTOCOL_VERSION,
+  RELAYED_MESSAGES,
+} from '../../shared/signalingProtocol';
+import {
+  AckPayload,
+  AuthTokenProvider,
+  ClientEnvelope,
+  ClientMessageMap,
+  ClientMessageType,
+  ReportReason,
+  RoomPhasePayload,
+  ServerDrainingPayload,
+  ServerEnvelope,
+  SignalingServiceEvents,
+  SignalingState,
+  UserPreferences,
+  UserSession,
+} from '../types/webrtc';
+import { getRuntimeConfig } from '../config';
+import { TypedEventEmitter } from '../utils/eventEmitter';
+import { apiService } from './api';
+import { SignalingTransport, SocketIOTransport, TransportFactory, WebSocketTransport } from './transports';
 
-class SignalingService {
-  private socket: WebSocket | null = null;
+// A message waiting in the outbox for the connection to come back
+interface QueuedMessage {
+  type: ClientMessageType;
+  data: ClientMessageMap[ClientMessageType];
+  id?: string;
+  // Room the message belongs to; peer messages are dropped once it changes
+  roomId?: string;
+}
+
+interface PendingRequest {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const MAX_OUTBOX_SIZE = 100;
+const DEFAULT_REQUEST_TIMEOUT = 5000;
+// Ping every 10s; a socket that stays silent for 25s (two missed pongs) is dead
+const HEARTBEAT_INTERVAL = 10000;
+const HEARTBEAT_TIMEOUT = 25000;
+
+class SignalingService extends TypedEventEmitter<SignalingServiceEvents> {
+  private transport: SignalingTransport | null = null;
   private socketId: string | null = null;
   private state: SignalingState = {
     isConnected: false,
     isSearching: false,
   };
-  private listeners: Map<string, Function[]> = new Map();
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
+  // Lets a reconnect reclaim the previous session instead of registering anew
+  private resumeToken: string | null = null;
+  // Messages sent while disconnected, flushed in order once the session is back
+  private outbox: QueuedMessage[] = [];
+  private pendingRequests: Map<string, PendingRequest> = new Map();
+  private requestSeq = 0;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private lastHeardAt = 0;
+  // Token fetched for the current connection
+  private sessionToken = '';
+  // Endpoint a draining server sent us to, used instead of the configured one
+  private signalingUrlOverride: string | null = null;
+  // Set while our server drains during a call; the next search moves us off it
+  private leaveDrainingServer: (() => void) | null = null;
+
+  // Endpoint and transport come from the runtime config at connect time, so a
+  // developer override takes effect on the next connection
+  private createTransport: TransportFactory = () => {
+    const { signalingUrl, signalingTransport } = getRuntimeConfig();
+    const url = this.signalingUrlOverride ?? signalingUrl;
+    return signalingTransport === 'socket.io'
+      ? new SocketIOTransport(url)
+      : new WebSocketTransport(url);
+  };
+
+  // Signed session token from the auth API, presented with register-user
+  private authTokens: AuthTokenProvider = {
+    getToken: async () => (await apiService.getSessionToken()).token,
+    invalidate: () => apiService.clearSessionToken(),
+  };
 
-  // Production server หรือ development server URL
-  private readonly serverUrl = __DEV__ 
-    ? 'ws://192.168.95.82:3001/ws' 
-    : 'wss://your-production-server.com/ws';
+  // Swap the transport used for future connections (e.g. Socket.IO, or a fake in tests)
+  useTransport(createTransport: TransportFactory): void {
+    this.createTransport = createTransport;
+  }
+
+  // Swap where session tokens come from (e.g. a fixed token against a fake server)
+  useAuthTokens(provider: AuthTokenProvider): void {
+    this.authTokens = provider;
+  }
+
+  async connect(userSession: UserSession): Promise<void> {
+    this.sessionToken = await this.authTokens.getToken();
 
-  connect(userSession: UserSession): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
-        console.log('Connecting to WebSocket server:', this.serverUrl);
-        
-        this.socket = new WebSocket(this.serverUrl);
-
-        this.socket.onopen = () => {
-          console.log('WebSocket connection established');
-          this.state.isConnected = true;
-          this.reconnectAttempts = 0;
-          this.emit('connected', { isConnected: true });
-          
-          // Register user session
-          this.sendMessage({
-            type: 'register-user',
-            data: { userSession }
-          });
-          
-          resolve();
-        };
-
-        this.socket.onmessage = (event) => {
-          try {
-            const message = JSON.parse(event.data);
-            this.handleIncomingMessage(message);
-          } catch (error) {
-            console.error('Failed to parse message:', error);
-          }
-        };
-
-        this.socket.onclose = (event) => {
-          console.log('WebSocket connection closed:', event.code, event.reason);
-          this.state.isConnected = false;
-          this.emit('disconnected', { isConnected: false });
-          
-          // Attempt reconnection if not intentionally closed
-          if (event.code !== 1000 && this.reconnectAttempts < this.maxReconnectAttempts) {
-            this.attemptReconnect(userSession);
-          }
-        };
+        const transport = this.createTransport();
+        this.transport = transport;
+
+        transport.open({
+          onOpen: () => {
+            console.log('Signaling connection established');
+            this.state.isConnected = true;
+            this.reconnectAttempts = 0;
+            this.leaveDrainingServer = null;
+            this.startHeartbeat(userSession);
+            this.emit('connected', { isConnected: true });
+
+            // Resume the previous session if we have one, otherwise register
+            if (this.resumeToken) {
+              this.sendMessage('resume-session', { resumeToken: this.resumeToken });
+            } else {
+              this.registerUser(userSession);
+            }
 
-        this.socket.onerror = (error) => {
-          console.error('WebSocket error:', error);
-          this.state.error = 'Connection error';
-          reject(new Error('WebSocket connection failed'));
-        };
+            resolve();
+          },
 
+          onMessage: (message) => {
+            this.lastHeardAt = Date.now();
+            this.handleIncomingMessage(message, userSession);
+          },
+
+          onClose: (code, reason) => {
+            // A connection we already replaced with a new one
+            if (this.transport !== transport) {
+              return;
+            }
+
+            console.log('Signaling connection closed:', code, reason);
+            this.handleSocketClosed(code, userSession);
+          },
+
+          onError: (error) => {
+            this.state.error = 'Connection error';
+            reject(error);
+          },
+        });
       } catch (error) {
         reject(error);
       }
     });
   }
 
-  private handleIncomingMessage(message: any): void {
-    const { type, data } = message;
-    
-    console.log('Received message:', type, data);
+  private handleIncomingMessage(message: ServerEnvelope, userSession: UserSession): void {
+    if (message.v !== PROTOCOL_VERSION) {
+      console.error(`Ignoring message with protocol version ${message.v}, expected ${PROTOCOL_VERSION}`);
+      return;
+    }
+
+    console.log('Received message:', message.type, message.data);
 
-    switch (type) {
+    switch (message.type) {
       case 'connect':
-        this.socketId = data?.sid || null;
+        this.socketId = message.data?.sid || null;
         console.log('Connected with socket ID:', this.socketId);
         break;
         
       case 'registration-success':
-        console.log('Registration successful:', data);
-        this.emit('registration-success', data);
+        console.log('Registration successful:', message.data);
+        this.resumeToken = message.data.resumeToken;
+        this.flushOutbox();
+        this.emit('registration-success', message.data);
+        break;
+
+      case 'session-resumed':
+        console.log('Session resumed:', message.data);
+        this.socketId = message.data.socketId;
+        this.resumeToken = message.data.resumeToken;
+        if (this.state.currentRoomId && this.state.currentRoomId !== message.data.roomId) {
+          // The partner left while we were away
+          this.endLostRoom();
+        }
+        this.state.currentRoomId = message.data.roomId;
+        this.flushOutbox();
+        this.emit('session-resumed', message.data);
+        break;
+
+      case 'resume-failed':
+        console.warn('Session could not be resumed, registering again:', message.data.message);
+        this.resumeToken = null;
+        this.endLostRoom();
+        this.registerUser(userSession);
         break;
         
       case 'match-found':
-        console.log('Match found:', data);
-        this.state.currentRoomId = data.roomId;
-        this.emit('match-found', data);
+        console.log('Match found:', message.data);
+        this.state.currentRoomId = message.data.roomId;
+        this.emit('match-found', message.data);
         break;
         
       case 'search-started':
-        console.log('Search started:', data);
-        this.emit('search-started', data);
+        console.log('Search started:', message.data);
+        this.emit('search-started', message.data);
         break;
         
       case 'no-match':
@@ -104,35 +208,204 @@ class SignalingService {
         break;
         
       case 'room-error':
-        console.error('Room error:', data);
-        this.emit('room-error', data);
+        console.error('Room error:', message.data);
+        if (message.data.code === 'matchmaking-disabled') {
+          // Paused for maintenance; searching again is pointless until the retry time
+          this.state.isSearching = false;
+          this.state.rateLimitedUntil = Date.now() + (message.data.retryAfterMs ?? 0);
+        }
+        this.emit('room-error', message.data);
         break;
         
+      case 'report-received':
+        console.log('Report received by server:', message.data);
+        this.emit('report-received', message.data);
+        break;
+
       case 'offer':
-        this.emit('offer', data);
+        this.emit('offer', message.data);
         break;
         
       case 'answer':
-        this.emit('answer', data);
+        this.emit('answer', message.data);
         break;
         
       case 'ice-candidate':
-        this.emit('ice-candidate', data);
+        this.emit('ice-candidate', message.data);
         break;
         
       case 'user-left':
-        this.emit('user-left', data);
+        this.emit('user-left', message.data);
+        break;
+
+      case 'room-dissolved':
+        console.warn('Room dissolved by server:', message.data.reason);
+        if (this.state.currentRoomId === message.data.roomId) {
+          this.endLostRoom();
+          if (message.data.requeued) {
+            // The server already put us back in the queue
+            this.state.isSearching = true;
+            this.emit('search-started', { isSearching: true });
+          }
+        }
+        this.emit('room-dissolved', message.data);
         break;
         
       case 'server-stats':
-        console.log('Server stats:', data);
+        console.log('Server stats:', message.data);
+        break;
+
+      case 'ice-servers':
+        console.log('ICE servers received, expiring at', new Date(message.data.expiresAt).toISOString());
+        this.emit('ice-servers', message.data);
+        break;
+
+      case 'ack':
+        this.handleAck(message.data);
+        break;
+
+      case 'pong':
+        this.state.latencyMs = Date.now() - message.data.sentAt;
+        this.emit('latency', this.state.latencyMs);
+        break;
+
+      case 'protocol-error':
+        console.error('Protocol error:', message.data);
+        this.state.error = message.data.message;
+        this.emit('protocol-error', message.data);
+        break;
+
+      case 'rate-limited':
+        console.warn('Rate limited:', message.data);
+        if (message.data.type === 'find-match') {
+          this.state.isSearching = false;
+          this.state.rateLimitedUntil = Date.now() + message.data.retryAfterMs;
+        }
+        this.emit('rate-limited', message.data);
+        break;
+
+      case 'maintenance-notice':
+        console.log('Maintenance notice:', message.data.message);
+        this.emit('maintenance-notice', message.data);
+        break;
+
+      case 'server-draining':
+        console.warn('Server is draining:', message.data.message);
+        this.emit('server-draining', message.data);
+        this.handleServerDraining(message.data, userSession);
         break;
         
       default:
-        console.log('Unknown message type:', type);
+        console.log('Unknown message type:', (message as { type: string }).type);
     }
   }
 
+  private registerUser(userSession: UserSession): void {
+    this.sendMessage('register-user', { token: this.sessionToken, userSession });
+  }
+
+  private handleSocketClosed(code: number, userSession: UserSession): void {
+    this.stopHeartbeat();
+    this.state.isConnected = false;
+    this.emit('disconnected', { isConnected: false });
+
+    // Attempt reconnection if not intentionally closed or refused by the server
+    const refused = code === CLOSE_CODES.BANNED ||
+      code === CLOSE_CODES.UNSUPPORTED_VERSION ||
+      code === CLOSE_CODES.SESSION_REPLACED ||
+      code === CLOSE_CODES.KICKED;
+    if (code === 1000 || refused || this.reconnectAttempts >= this.maxReconnectAttempts) {
+      return;
+    }
+
+    if (code === CLOSE_CODES.UNAUTHORIZED) {
+      // Our token was rejected; register again with a new one
+      this.resumeToken = null;
+      this.authTokens.invalidate()
+        .catch((error) => console.warn('Failed to clear session token:', error))
+        .finally(() => this.attemptReconnect(userSession));
+      return;
+    }
+
+    this.attemptReconnect(userSession);
+  }
+
+  // Leave a draining server right away, unless we are in a call: the call
+  // keeps this connection until it ends and we move on the next search
+  private handleServerDraining(drain: ServerDrainingPayload, userSession: UserSession): void {
+    const move = () => this.moveToAnotherServer(drain, userSession);
+    if (this.state.currentRoomId) {
+      this.leaveDrainingServer = move;
+    } else {
+      move();
+    }
+  }
+
+  // Drop the session on the draining server and connect again after the hinted delay
+  private moveToAnotherServer({ retryAfterMs, reconnectUrl }: ServerDrainingPayload, userSession: UserSession): void {
+    this.leaveDrainingServer = null;
+    if (reconnectUrl) {
+      this.signalingUrlOverride = reconnectUrl;
+    }
+
+    // Sessions cannot be resumed on another node
+    this.resumeToken = null;
+    this.stopHeartbeat();
+    const transport = this.transport;
+    this.transport = null;
+    transport?.close(1000, 'Server draining');
+    this.state.isConnected = false;
+    this.state.isSearching = false;
+    this.emit('disconnected', { isConnected: false });
+
+    // Jitter so the clients of one server do not all reconnect at once
+    const delay = retryAfterMs + Math.random() * retryAfterMs;
+    setTimeout(() => {
+      this.connect(userSession).catch(error => {
+        console.error('Reconnection after drain failed:', error);
+      });
+    }, delay);
+  }
+
+  private startHeartbeat(userSession: UserSession): void {
+    this.stopHeartbeat();
+    this.lastHeardAt = Date.now();
+
+    this.heartbeatTimer = setInterval(() => {
+      if (Date.now() - this.lastHeardAt > HEARTBEAT_TIMEOUT) {
+        this.handleDeadConnection(userSession);
+        return;
+      }
+      this.sendMessage('ping', { sentAt: Date.now() });
+    }, HEARTBEAT_INTERVAL);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  // A half-open socket may never fire onclose, so abandon it and reconnect ourselves
+  private handleDeadConnection(userSession: UserSession): void {
+    console.warn('No heartbeat from server, treating connection as dead');
+    this.transport?.close();
+    this.handleSocketClosed(CLOSE_CODES.HEARTBEAT_TIMEOUT, userSession);
+  }
+
+  // The room we were in no longer exists on the server
+  private endLostRoom(): void {
+    if (!this.state.currentRoomId) {
+      return;
+    }
+
+    this.state.currentRoomId = undefined;
+    this.state.isSearching = false;
+    this.emit('user-left', {});
+    this.emit('left-room', {});
+  }
+
   private attemptReconnect(userSession: UserSession): void {
     this.reconnectAttempts++;
     console.log(`Attempting reconnection ${this.reconnectAttempts}/${this.maxReconnectAttempts}`);
@@ -145,43 +418,69 @@ class SignalingService {
   }
 
   disconnect(): void {
-    if (this.socket) {
-      this.socket.close(1000, 'User disconnected');
-      this.socket = null;
+    this.stopHeartbeat();
+    if (this.transport) {
+      this.transport.close(1000, 'User disconnected');
+      this.transport = null;
     }
     this.socketId = null;
+    this.resumeToken = null;
+    this.signalingUrlOverride = null;
+    this.leaveDrainingServer = null;
+    this.outbox = [];
+    this.pendingRequests.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(new Error('Disconnected'));
+    });
+    this.pendingRequests.clear();
     this.state = {
       isConnected: false,
       isSearching: false,
     };
-    this.listeners.clear();
+    this.removeAllListeners();
   }
 
-  // หาคู่สนทนาใหม่
-  findMatch(preferences?: any): void {
-    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
-      console.error('Signaling service not connected');
-      return;
-    }
-
+  // หาคู่สนทนาใหม่ (resolve เมื่อเซิร์ฟเวอร์ยืนยันว่าได้รับคำขอแล้ว)
+  findMatch(preferences?: UserPreferences): Promise<void> {
+    // Our server is shutting down; search on another one instead
+    this.leaveDrainingServer?.();
     this.state.isSearching = true;
-    this.sendMessage({
-      type: 'find-match',
-      data: { preferences }
-    });
+    const acknowledged = this.request('find-match', { preferences });
     this.emit('search-started', { isSearching: true });
+    return acknowledged;
   }
 
   // ออกจากการสนทนาปัจจุบัน
   leaveCurrentMatch(): void {
-    if (!this.socket || !this.state.currentRoomId) {
+    if (!this.transport || !this.state.currentRoomId) {
       return;
     }
 
-    this.sendMessage({
-      type: 'leave-room',
-      data: { roomId: this.state.currentRoomId }
-    });
+    this.sendMessage('leave-room', { roomId: this.state.currentRoomId });
+    this.state.currentRoomId = undefined;
+    this.state.isSearching = false;
+    this.emit('left-room', {});
+  }
+
+  // บล็อกคู่สนทนาปัจจุบันและออกจากห้อง
+  blockCurrentPartner(): void {
+    if (!this.transport || !this.state.currentRoomId) {
+      return;
+    }
+
+    this.sendMessage('block-user', { roomId: this.state.currentRoomId });
+    this.state.currentRoomId = undefined;
+    this.state.isSearching = false;
+    this.emit('left-room', {});
+  }
+
+  // รายงานคู่สนทนาปัจจุบันและออกจากห้อง
+  reportCurrentPartner(reason: ReportReason, details?: string): void {
+    if (!this.transport || !this.state.currentRoomId) {
+      return;
+    }
+
+    this.sendMessage('report-user', { roomId: this.state.currentRoomId, reason, details });
     this.state.currentRoomId = undefined;
     this.state.isSearching = false;
     this.emit('left-room', {});
@@ -189,63 +488,117 @@ class SignalingService {
 
   // ส่ง WebRTC signaling messages
   sendOffer(offer: RTCSessionDescriptionInit, to: string): void {
-    this.sendMessage({
-      type: 'offer',
-      data: { offer, to }
-    });
+    this.sendMessage('offer', { offer, to });
   }
 
   sendAnswer(answer: RTCSessionDescriptionInit, to: string): void {
-    this.sendMessage({
-      type: 'answer',
-      data: { answer, to }
-    });
+    this.sendMessage('answer', { answer, to });
   }
 
   sendIceCandidate(candidate: RTCIceCandidate, to: string): void {
-    this.sendMessage({
-      type: 'ice-candidate',
-      data: { candidate, to }
+    this.sendMessage('ice-candidate', { candidate: candidate.toJSON(), to });
+  }
+
+  // แจ้งเซิร์ฟเวอร์ว่าการเชื่อมต่อในห้องปัจจุบันไปถึงขั้นไหนแล้ว
+  reportRoomPhase(phase: RoomPhasePayload['phase']): void {
+    if (!this.state.currentRoomId) {
+      return;
+    }
+
+    this.sendMessage('room-phase', { roomId: this.state.currentRoomId, phase });
+  }
+
+  // ขอ TURN credentials ชุดใหม่ (ผลลัพธ์มากับ event 'ice-servers')
+  requestIceServers(): void {
+    this.sendMessage('get-ice-servers', {});
+  }
+
+  // Send a message and wait for the server to acknowledge it
+  request<K extends ClientMessageType>(
+    type: K,
+    data: ClientMessageMap[K],
+    timeoutMs = DEFAULT_REQUEST_TIMEOUT
+  ): Promise<void> {
+    const id = `${type}-${++this.requestSeq}`;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(id);
+        reject(new Error(`No acknowledgement for ${type} after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      this.pendingRequests.set(id, { resolve, reject, timer });
+      this.sendMessage(type, data, id);
     });
   }
 
-  private sendMessage(message: any): void {
-    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
-      console.error('Cannot send message: not connected');
+  private handleAck(ack: AckPayload): void {
+    const pending = this.pendingRequests.get(ack.id);
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pendingRequests.delete(ack.id);
+    if (ack.ok) {
+      pending.resolve();
+    } else {
+      pending.reject(new Error(ack.message || 'Request rejected'));
+    }
+  }
+
+  private sendMessage<K extends ClientMessageType>(type: K, data: ClientMessageMap[K], id?: string): void {
+    if (!this.transport || !this.transport.isOpen()) {
+      this.enqueue({
+        type,
+        data,
+        id,
+        roomId: (RELAYED_MESSAGES as readonly ClientMessageType[]).includes(type) ? this.state.currentRoomId : undefined,
+      });
       return;
     }
 
     try {
-      const messageStr = JSON.stringify(message);
-      console.log('Sending message:', messageStr);
-      this.socket.send(messageStr);
+      const envelope = createEnvelope(type, data, id) as ClientEnvelope;
+      // The server drops the whole connection on an oversized frame
+      if (JSON.stringify(envelope).length > MAX_MESSAGE_BYTES) {
+        console.error(`Not sending ${type}: message exceeds ${MAX_MESSAGE_BYTES} bytes`);
+        return;
+      }
+
+      console.log('Sending message:', type, data);
+      this.transport.send(envelope);
     } catch (error) {
       console.error('Failed to send message:', error);
     }
   }
 
-  // Event listeners management
-  on(event: string, callback: Function): void {
-    if (!this.listeners.has(event)) {
-      this.listeners.set(event, []);
+  private enqueue(message: QueuedMessage): void {
+    // The session handshake and heartbeats belong to a single socket and are never queued
+    if (message.type === 'register-user' || message.type === 'resume-session' || message.type === 'ping') {
+      return;
     }
-    this.listeners.get(event)?.push(callback);
-  }
 
-  off(event: string, callback: Function): void {
-    const eventListeners = this.listeners.get(event);
-    if (eventListeners) {
-      const index = eventListeners.indexOf(callback);
-      if (index > -1) {
-        eventListeners.splice(index, 1);
-      }
+    if (this.outbox.length >= MAX_OUTBOX_SIZE) {
+      const dropped = this.outbox.shift();
+      console.warn('Outbox full, dropping oldest message:', dropped?.type);
     }
+
+    console.log('Not connected, queueing message:', message.type);
+    this.outbox.push(message);
   }
 
-  private emit(event: string, data: any): void {
-    const eventListeners = this.listeners.get(event);
-    if (eventListeners) {
-      eventListeners.forEach(callback => callback(data));
+  // Send everything queued while offline, skipping peer messages for a room we are no longer in
+  private flushOutbox(): void {
+    const queued = this.outbox;
+    this.outbox = [];
+
+    for (const message of queued) {
+      if (message.roomId !== undefined && message.roomId !== this.state.currentRoomId) {
+        console.log('Dropping stale queued message:', message.type);
+        continue;
+      }
+      this.sendMessage(message.type, message.data, message.id);
     }
   }
 
@@ -255,7 +608,7 @@ class SignalingService {
   }
 
   isConnected(): boolean {
-    return this.state.isConnected && this.socket?.readyState === WebSocket.OPEN;
+    return this.state.isConnected && !!this.transport?.isOpen();
   }
 
   isSearching(): boolean {
@@ -0,0 +1,4 @@
+// Barrel export for signaling transports
+export * from './types';
+export { WebSocketTransport } from './webSocketTransport';
+export { SocketIOTransport } from './socketIOTransport';
@@ -0,0 +1,51 @@
+import { io, Socket } from 'socket.io-client';
+import { ClientEnvelope } from '../../types/webrtc';
+import { SignalingTransport, TransportHandlers } from './types';
+
+// Socket.IO transport. Envelopes travel on the 'message' event; the server
+// announces its close code on 'closing' since Socket.IO has none of its own.
+export class SocketIOTransport implements SignalingTransport {
+  private socket: Socket | null = null;
+
+  constructor(private readonly url: string) {}
+
+  open(handlers: TransportHandlers): void {
+    console.log('Connecting to Socket.IO server:', this.url);
+    // Reconnection is handled by SignalingService, not by Socket.IO
+    const socket = io(this.url, { transports: ['websocket'], reconnection: false });
+    this.socket = socket;
+
+    let closeInfo = { code: 1006, reason: '' };
+
+    socket.on('connect', () => handlers.onOpen());
+    socket.on('message', (envelope) => handlers.onMessage(envelope));
+    socket.on('closing', (info: { code: number; reason: string }) => {
+      closeInfo = info;
+    });
+    socket.on('disconnect', (reason) => handlers.onClose(closeInfo.code, closeInfo.reason || reason));
+    socket.on('connect_error', (error) => {
+      console.error('Socket.IO connection error:', error.message);
+      handlers.onError(error);
+      handlers.onClose(1006, error.message);
+    });
+  }
+
+  send(envelope: ClientEnvelope): void {
+    this.socket?.emit('message', envelope);
+  }
+
+  close(): void {
+    const socket = this.socket;
+    if (!socket) {
+      return;
+    }
+
+    this.socket = null;
+    socket.removeAllListeners();
+    socket.disconnect();
+  }
+
+  isOpen(): boolean {
+    return !!this.socket?.connected;
+  }
+}
@@ -0,0 +1,22 @@
+import { ClientEnvelope, ServerEnvelope } from '../../types/webrtc';
+
+export interface TransportHandlers {
+  onOpen: () => void;
+  onMessage: (envelope: ServerEnvelope) => void;
+  // Uses WebSocket close code semantics: 1000 is a normal close, 4xxx are
+  // CLOSE_CODES sent by the signaling server
+  onClose: (code: number, reason: string) => void;
+  onError: (error: Error) => void;
+}
+
+// One connection to the signaling server. A transport is opened once; after
+// the owner calls close() it must not invoke any handler again.
+export interface SignalingTransport {
+  open(handlers: TransportHandlers): void;
+  send(envelope: ClientEnvelope): void;
+  close(code?: number, reason?: string): void;
+  isOpen(): boolean;
+}
+
+// Creates a fresh transport for every (re)connection attempt
+export type TransportFactory = () => SignalingTransport;
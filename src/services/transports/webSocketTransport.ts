@@ -0,0 +1,57 @@
+import { ClientEnvelope } from '../../types/webrtc';
+import { SignalingTransport, TransportHandlers } from './types';
+
+// Raw WebSocket transport for the server's /ws endpoint
+export class WebSocketTransport implements SignalingTransport {
+  private socket: WebSocket | null = null;
+
+  constructor(private readonly url: string) {}
+
+  open(handlers: TransportHandlers): void {
+    console.log('Connecting to WebSocket server:', this.url);
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => handlers.onOpen();
+
+    socket.onmessage = (event) => {
+      let envelope;
+      try {
+        envelope = JSON.parse(event.data);
+      } catch (error) {
+        console.error('Failed to parse message:', error);
+        return;
+      }
+      handlers.onMessage(envelope);
+    };
+
+    socket.onclose = (event) => handlers.onClose(event.code, event.reason);
+
+    socket.onerror = (error) => {
+      console.error('WebSocket error:', error);
+      handlers.onError(new Error('WebSocket connection failed'));
+    };
+  }
+
+  send(envelope: ClientEnvelope): void {
+    this.socket?.send(JSON.stringify(envelope));
+  }
+
+  close(code = 1000, reason = ''): void {
+    const socket = this.socket;
+    if (!socket) {
+      return;
+    }
+
+    this.socket = null;
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onclose = null;
+    socket.onerror = null;
+    socket.close(code, reason);
+  }
+
+  isOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+}
@@ -5,10 +5,47 @@ import {
     RTCPeerConnection,
     RTCSessionDescription
 } from 'react-native-webrtc';
-import { WebRTCConfig, WebRTCState } from '../types/webrtc';
+import {
+    AnswerPayload,
+    CallQualitySample,
+    ChatMessage,
+    IceCandidatePayload,
+    IceServersPayload,
+    OfferPayload,
+    RelayedPayload,
+    ServerMessageMap,
+    VideoQualityProfile,
+    WebRTCConfig,
+    WebRTCServiceEvents,
+    WebRTCState,
+} from '../types/webrtc';
+import { getRuntimeConfig } from '../config';
+import { TypedEventEmitter } from '../utils/eventEmitter';
+import { BitrateController } from './bitrateController';
+import { CallQualityMonitor } from './callQualityMonitor';
 import { signalingService } from './signalingService';
 
-class WebRTCService {
+type RTCDataChannel = ReturnType<RTCPeerConnection['createDataChannel']>;
+
+// Frames exchanged over the chat data channel
+type ChatFrame =
+    | { kind: 'message'; id: string; text: string; sentAt: number }
+    | { kind: 'ack'; id: string };
+
+// Both peers create the chat channel with the same id, so no in-band negotiation is needed
+const CHAT_CHANNEL_ID = 0;
+const MAX_CHAT_MESSAGE_LENGTH = 500;
+
+// ICE restart recovery: attempts are spaced 1s, 2s, 4s apart before giving up
+const MAX_ICE_RESTART_ATTEMPTS = 3;
+const ICE_RESTART_BASE_DELAY = 1000;
+
+// TURN credentials are refreshed this long before they expire
+const ICE_SERVERS_REFRESH_MARGIN = 60 * 1000;
+// How long to wait for fresh credentials before falling back to STUN only
+const ICE_SERVERS_TIMEOUT = 3000;
+
+class WebRTCService extends TypedEventEmitter<WebRTCServiceEvents> {
     private peerConnection: RTCPeerConnection | null = null;
     private localStream: MediaStream | null = null;
     private remoteStream: MediaStream | null = null;
@@ -19,24 +56,39 @@ class WebRTCService {
         hasLocalStream: false,
         hasRemoteStream: false,
     };
-    private listeners: Map<string, Function[]> = new Map();
-
-    // STUN/TURN servers configuration
-    private readonly config: WebRTCConfig = {
-        iceServers: [
-            { urls: 'stun:stun.l.google.com:19302' },
-            { urls: 'stun:stun1.l.google.com:19302' },
-            { urls: 'stun:stun2.l.google.com:19302' },
-            { urls: 'stun:stun3.l.google.com:19302' },
-            { urls: 'stun:stun4.l.google.com:19302' },
-            // เพิ่ม TURN server สำหรับการใช้งานจริง
-            // {
-            //   urls: 'turn:your-turn-server.com:3478',
-            //   username: 'username',
-            //   credential: 'password'
-            // }
-        ],
-    };
+    private chatChannel: RTCDataChannel | null = null;
+    // Perfect negotiation state
+    private isPolite = false;
+    private makingOffer = false;
+    private ignoreOffer = false;
+    private pendingCandidates: RTCIceCandidateInit[] = [];
+    // Connection recovery state
+    private iceRestartAttempt = 0;
+    private iceRestartTimer: ReturnType<typeof setTimeout> | null = null;
+    // Time-limited TURN servers issued by the signaling server
+    private turnServers: RTCIceServer[] = [];
+    private turnServersExpireAt = 0;
+    private chatMessages: ChatMessage[] = [];
+    private bitrateController = new BitrateController(
+        () => this.peerConnection?.getSenders() ?? [],
+        (step, profile) => this.emit('videoEncodingChanged', { step, profile })
+    );
+    private qualityMonitor = new CallQualityMonitor(
+        () => (this.peerConnection ? this.peerConnection.getStats() : Promise.resolve(null)),
+        {
+            onSample: (sample) => {
+                this.emit('callQuality', sample);
+                this.bitrateController.handleSample(sample);
+            },
+            onQualityChanged: (quality) => this.emit('qualityChanged', quality),
+        }
+    );
+
+    // STUN servers come from the runtime config. TURN servers are added at
+    // runtime with short-lived credentials from the signaling server (see refreshIceServers).
+    private get config(): WebRTCConfig {
+        return { iceServers: getRuntimeConfig().iceServers };
+    }
 
     async initialize(): Promise<void> {
         try {
@@ -60,7 +112,8 @@ class WebRTCService {
                 video: {
                     width: { min: 640, ideal: 1280, max: 1920 },
                     height: { min: 480, ideal: 720, max: 1080 },
-                    frameRate: { min: 15, ideal: 30, max: 60 },
+                    // Outgoing quality is adapted per call by BitrateController
+                    frameRate: { min: 15, ideal: 30, max: 30 },
                     facingMode: 'user', // front camera
                     aspectRatio: 16/9,
                 },
@@ -134,10 +187,52 @@ class WebRTCService {
         signalingService.on('answer', this.handleAnswer.bind(this));
         signalingService.on('ice-candidate', this.handleIceCandidate.bind(this));
         signalingService.on('user-left', this.handleUserLeft.bind(this));
+        signalingService.on('ice-servers', this.handleIceServers.bind(this));
+    }
+
+    private handleIceServers(data: IceServersPayload): void {
+        this.turnServers = data.iceServers;
+        this.turnServersExpireAt = data.expiresAt;
+        console.log(`Received ${data.iceServers.length} TURN server(s)`);
+    }
+
+    // Make sure the TURN credentials are still valid before creating a peer
+    // connection. Falls back to STUN only if the server does not answer in time.
+    private async refreshIceServers(): Promise<void> {
+        if (Date.now() < this.turnServersExpireAt - ICE_SERVERS_REFRESH_MARGIN) {
+            return;
+        }
+        if (!signalingService.isConnected()) {
+            return;
+        }
+
+        await new Promise<void>((resolve) => {
+            const timer = setTimeout(() => {
+                unsubscribe();
+                console.warn('Timed out waiting for TURN credentials, using STUN only');
+                resolve();
+            }, ICE_SERVERS_TIMEOUT);
+
+            const unsubscribe = signalingService.once('ice-servers', () => {
+                clearTimeout(timer);
+                resolve();
+            });
+            signalingService.requestIceServers();
+        });
     }
 
     async createPeerConnection(): Promise<RTCPeerConnection> {
-        this.peerConnection = new RTCPeerConnection(this.config);
+        await this.refreshIceServers();
+
+        // Another caller may have created the connection while we waited
+        if (this.peerConnection) {
+            return this.peerConnection;
+        }
+
+        this.peerConnection = new RTCPeerConnection({
+            ...this.config,
+            iceServers: [...this.config.iceServers, ...this.turnServers],
+        });
 
         // Add local stream to peer connection
         if (this.localStream) {
@@ -146,6 +241,12 @@ class WebRTCService {
             });
         }
 
+        // In-call text chat
+        this.setupChatChannel(this.peerConnection.createDataChannel('chat', {
+            negotiated: true,
+            id: CHAT_CHANNEL_ID,
+        }));
+
         // Handle remote stream
         (this.peerConnection as any).onaddstream = (event: any) => {
             console.log('Remote stream received:', event.stream);
@@ -187,6 +288,10 @@ class WebRTCService {
             }
         };
 
+        (this.peerConnection as any).onnegotiationneeded = () => {
+            this.handleNegotiationNeeded();
+        };
+
         // Handle ICE candidates
         (this.peerConnection as any).onicecandidate = (event: any) => {
             if (event.candidate) {
@@ -205,26 +310,30 @@ class WebRTCService {
                 case 'connected':
                     this.state.isConnected = true;
                     this.state.isConnecting = false;
+                    // Rooms that never report this are dissolved by the server
+                    signalingService.reportRoomPhase('connected');
+                    this.finishRecovery();
+                    this.qualityMonitor.start();
+                    this.bitrateController.reset();
                     this.emit('connected', true);
                     break;
                 case 'disconnected':
-                    this.state.isConnected = false;
-                    this.state.isConnecting = false;
-                    this.emit('disconnected', false);
-                    break;
                 case 'failed':
-                    console.warn('Connection failed, attempting restart...');
+                    console.warn(`Connection ${state}, attempting ICE restart...`);
+                    this.qualityMonitor.stop();
                     this.state.isConnected = false;
                     this.state.isConnecting = false;
-                    this.handleConnectionFailure();
+                    this.beginRecovery();
                     break;
                 case 'closed':
+                    this.qualityMonitor.stop();
                     this.state.isConnected = false;
                     this.state.isConnecting = false;
                     this.emit('disconnected', false);
                     break;
                 case 'connecting':
                     this.state.isConnecting = true;
+                    signalingService.reportRoomPhase('negotiating');
                     this.emit('connecting', true);
                     break;
             }
@@ -235,10 +344,7 @@ class WebRTCService {
             const iceState = this.peerConnection?.iceConnectionState;
             console.log('ICE connection state changed:', iceState);
             
-            if (iceState === 'failed') {
-                console.warn('ICE connection failed, restarting...');
-                this.restartIce();
-            } else if (iceState === 'connected' || iceState === 'completed') {
+            if (iceState === 'connected' || iceState === 'completed') {
                 console.log('ICE connection established successfully');
             }
         };
@@ -246,7 +352,121 @@ class WebRTCService {
         return this.peerConnection;
     }
 
-    async createOffer(peerId: string): Promise<void> {
+    private setupChatChannel(channel: RTCDataChannel): void {
+        this.chatChannel = channel;
+
+        (channel as any).onopen = () => {
+            console.log('Chat channel open');
+            this.emit('chatReady', true);
+        };
+
+        (channel as any).onclose = () => {
+            console.log('Chat channel closed');
+            // Ignore late close events from a channel that has already been replaced
+            if (this.chatChannel === channel) {
+                this.emit('chatReady', false);
+            }
+        };
+
+        (channel as any).onmessage = (event: any) => {
+            if (typeof event.data === 'string') {
+                this.handleChatFrame(event.data);
+            }
+        };
+    }
+
+    private handleChatFrame(raw: string): void {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(raw);
+        } catch (error) {
+            console.error('Failed to parse chat frame:', error);
+            return;
+        }
+
+        // Frames come from the peer and may be any JSON value
+        if (typeof parsed !== 'object' || parsed === null) {
+            console.warn('Ignoring chat frame that is not an object:', raw);
+            return;
+        }
+
+        const frame = parsed as ChatFrame;
+        if (frame.kind === 'message') {
+            const message: ChatMessage = {
+                id: frame.id,
+                text: String(frame.text).slice(0, MAX_CHAT_MESSAGE_LENGTH),
+                direction: 'incoming',
+                sentAt: frame.sentAt,
+                status: 'delivered',
+            };
+            this.chatMessages.push(message);
+            this.emit('chatMessage', message);
+
+            // Delivery acknowledgement
+            this.sendChatFrame({ kind: 'ack', id: frame.id });
+        } else if (frame.kind === 'ack') {
+            const message = this.chatMessages.find(m => m.id === frame.id && m.direction === 'outgoing');
+            if (message) {
+                message.status = 'delivered';
+                this.emit('chatMessageUpdated', { ...message });
+            }
+        }
+    }
+
+    private sendChatFrame(frame: ChatFrame): boolean {
+        if (!this.chatChannel || this.chatChannel.readyState !== 'open') {
+            return false;
+        }
+
+        try {
+            this.chatChannel.send(JSON.stringify(frame));
+            return true;
+        } catch (error) {
+            console.error('Failed to send chat frame:', error);
+            return false;
+        }
+    }
+
+    // Send a text message to the current partner. Returns null if chat is not available.
+    sendChatMessage(text: string): ChatMessage | null {
+        const trimmed = text.trim().slice(0, MAX_CHAT_MESSAGE_LENGTH);
+        if (!trimmed) {
+            return null;
+        }
+
+        const message: ChatMessage = {
+            id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            text: trimmed,
+            direction: 'outgoing',
+            sentAt: Date.now(),
+            status: 'sent',
+        };
+
+        if (!this.sendChatFrame({ kind: 'message', id: message.id, text: message.text, sentAt: message.sentAt })) {
+            console.warn('Cannot send chat message: channel not open');
+            return null;
+        }
+
+        this.chatMessages.push(message);
+        this.emit('chatMessage', message);
+        return message;
+    }
+
+    // Prepare for a call with a newly matched peer. Exactly one side of a
+    // pair is polite: on an offer collision it rolls back its own offer and
+    // accepts the remote one, while the impolite side ignores the incoming offer.
+    startSession(peerId: string, polite: boolean): void {
+        this.currentPeerId = peerId;
+        this.isPolite = polite;
+        this.makingOffer = false;
+        this.ignoreOffer = false;
+        this.pendingCandidates = [];
+        this.state.callFailed = false;
+        this.state.error = undefined;
+        console.log(`Session started with ${peerId} (${polite ? 'polite' : 'impolite'})`);
+    }
+
+    async createOffer(peerId: string, iceRestart = false): Promise<void> {
         try {
             this.currentPeerId = peerId;
             
@@ -254,11 +474,12 @@ class WebRTCService {
                 await this.createPeerConnection();
             }
 
+            this.makingOffer = true;
             const offer = await this.peerConnection!.createOffer({
                 offerToReceiveAudio: true,
                 offerToReceiveVideo: true,
                 voiceActivityDetection: true,
-                iceRestart: false,
+                iceRestart,
             });
 
             await this.peerConnection!.setLocalDescription(offer);
@@ -266,39 +487,103 @@ class WebRTCService {
             // Send offer through signaling service
             signalingService.sendOffer(offer, peerId);
 
-            console.log('Offer created and sent to:', peerId);
+            console.log(`${iceRestart ? 'ICE restart offer' : 'Offer'} created and sent to:`, peerId);
         } catch (error) {
             console.error('Failed to create offer:', error);
             this.state.error = error instanceof Error ? error.message : 'Failed to create offer';
+        } finally {
+            this.makingOffer = false;
+        }
+    }
+
+    // Renegotiate an established connection (e.g. after tracks change)
+    private async handleNegotiationNeeded(): Promise<void> {
+        const pc = this.peerConnection;
+        // The initial offer is sent explicitly by the impolite side
+        if (!pc || !pc.remoteDescription || !this.currentPeerId) {
+            return;
+        }
+
+        try {
+            this.makingOffer = true;
+            await pc.setLocalDescription();
+            if (pc.localDescription) {
+                signalingService.sendOffer(pc.localDescription.toJSON() as RTCSessionDescriptionInit, this.currentPeerId);
+                console.log('Renegotiation offer sent to:', this.currentPeerId);
+            }
+        } catch (error) {
+            console.error('Failed to renegotiate:', error);
+        } finally {
+            this.makingOffer = false;
+        }
+    }
+
+    // Signaling from anyone other than the current peer is left over from a previous call
+    private isFromCurrentPeer(from: string | undefined): boolean {
+        if (!from || from !== this.currentPeerId) {
+            console.warn('Ignoring signaling message from stale peer:', from, 'current:', this.currentPeerId);
+            return false;
+        }
+        return true;
+    }
+
+    // Apply ICE candidates that arrived before the remote description
+    private async flushPendingCandidates(): Promise<void> {
+        const candidates = this.pendingCandidates;
+        this.pendingCandidates = [];
+
+        for (const candidate of candidates) {
+            try {
+                await this.peerConnection?.addIceCandidate(new RTCIceCandidate(candidate));
+            } catch (error) {
+                console.error('Failed to add queued ICE candidate:', error);
+            }
+        }
+
+        if (candidates.length > 0) {
+            console.log(`Applied ${candidates.length} queued ICE candidates`);
         }
     }
 
-    private async handleOffer(data: any): Promise<void> {
+    private async handleOffer(data: OfferPayload & RelayedPayload): Promise<void> {
         try {
             console.log('Handling offer:', data);
+            const { offer, from } = data;
             
-            // Extract offer and from from data
-            const offer = data.offer || data;
-            const from = data.from;
-            
-            if (!offer || !offer.type || !offer.sdp) {
+            if (!offer.type || !offer.sdp) {
                 console.error('Invalid offer data:', data);
                 return;
             }
-            
-            this.currentPeerId = from;
+
+            if (!this.isFromCurrentPeer(from)) {
+                return;
+            }
             
             if (!this.peerConnection) {
                 await this.createPeerConnection();
             }
+            const pc = this.peerConnection!;
+
+            const offerCollision = this.makingOffer || pc.signalingState !== 'stable';
+            this.ignoreOffer = !this.isPolite && offerCollision;
+            if (this.ignoreOffer) {
+                console.log('Offer collision, ignoring offer as impolite peer');
+                return;
+            }
+
+            if (offerCollision) {
+                console.log('Offer collision, rolling back local offer as polite peer');
+                await pc.setLocalDescription(new RTCSessionDescription({ type: 'rollback', sdp: '' }));
+            }
 
-            await this.peerConnection!.setRemoteDescription(new RTCSessionDescription({
+            await pc.setRemoteDescription(new RTCSessionDescription({
                 type: offer.type,
                 sdp: offer.sdp,
             }));
+            await this.flushPendingCandidates();
 
-            const answer = await this.peerConnection!.createAnswer();
-            await this.peerConnection!.setLocalDescription(answer);
+            const answer = await pc.createAnswer();
+            await pc.setLocalDescription(answer);
 
             // Send answer through signaling service
             signalingService.sendAnswer(answer, from);
@@ -309,56 +594,43 @@ class WebRTCService {
         }
     }
 
-    private async handleAnswer(data: any): Promise<void> {
+    private async handleAnswer(data: AnswerPayload & RelayedPayload): Promise<void> {
         try {
             console.log('Handling answer:', data);
+            const { answer, from } = data;
             
-            // Extract answer and from from data
-            const answer = data.answer || data;
-            const from = data.from;
-            
-            if (!answer || !answer.type || !answer.sdp) {
+            if (!answer.type || !answer.sdp) {
                 console.error('Invalid answer data:', data);
                 return;
             }
-            
-            if (this.peerConnection) {
-                await this.peerConnection.setRemoteDescription(new RTCSessionDescription({
-                    type: answer.type,
-                    sdp: answer.sdp,
-                }));
-                console.log('Answer received and set from:', from);
+
+            if (!this.isFromCurrentPeer(from)) {
+                return;
             }
+
+            // An answer only makes sense while our own offer is outstanding
+            if (this.peerConnection?.signalingState !== 'have-local-offer') {
+                console.warn('Ignoring answer in signaling state:', this.peerConnection?.signalingState);
+                return;
+            }
+
+            await this.peerConnection.setRemoteDescription(new RTCSessionDescription({
+                type: answer.type,
+                sdp: answer.sdp,
+            }));
+            await this.flushPendingCandidates();
+            console.log('Answer received and set from:', from);
         } catch (error) {
             console.error('Failed to handle answer:', error);
         }
     }
 
-    private async handleIceCandidate(data: any): Promise<void> {
+    private async handleIceCandidate(data: IceCandidatePayload & RelayedPayload): Promise<void> {
         try {
             console.log('Handling ICE candidate:', data);
+            const { candidate, from } = data;
             
-            // Extract candidate and from from data
-            let candidate;
-            const from = data.from;
-            
-            // Check if data itself is the candidate or if it contains candidate property
-            if (data.candidate && typeof data.candidate === 'string') {
-                // data contains the candidate string
-                candidate = {
-                    candidate: data.candidate,
-                    sdpMLineIndex: data.sdpMLineIndex,
-                    sdpMid: data.sdpMid
-                };
-            } else if (typeof data.candidate === 'object') {
-                // data.candidate is already an object
-                candidate = data.candidate;
-            } else {
-                // data is the candidate object itself
-                candidate = data;
-            }
-            
-            if (!candidate || !candidate.candidate) {
+            if (!candidate.candidate) {
                 console.error('Invalid ICE candidate data:', data);
                 return;
             }
@@ -368,22 +640,49 @@ class WebRTCService {
                 console.warn('ICE candidate missing both sdpMLineIndex and sdpMid, skipping:', candidate);
                 return;
             }
-            
-            if (this.peerConnection) {
-                await this.peerConnection.addIceCandidate(new RTCIceCandidate(candidate));
-                console.log('ICE candidate added successfully from:', from);
+
+            if (!this.isFromCurrentPeer(from)) {
+                return;
             }
+
+            // Queue candidates that arrive before the remote description is applied
+            if (!this.peerConnection || !this.peerConnection.remoteDescription) {
+                this.pendingCandidates.push(candidate);
+                console.log(`Queued early ICE candidate (${this.pendingCandidates.length} pending)`);
+                return;
+            }
+            
+            await this.peerConnection.addIceCandidate(new RTCIceCandidate(candidate));
+            console.log('ICE candidate added successfully from:', from);
         } catch (error) {
-            console.error('Failed to add ICE candidate:', error, 'Data:', data);
+            // Candidates belonging to an offer we ignored are expected to fail
+            if (!this.ignoreOffer) {
+                console.error('Failed to add ICE candidate:', error, 'Data:', data);
+            }
         }
     }
 
-    private handleUserLeft(): void {
+    private handleUserLeft(data: Partial<ServerMessageMap['user-left']>): void {
+        if (data.from && data.from !== this.currentPeerId) {
+            console.log('Ignoring user-left from previous peer:', data.from);
+            return;
+        }
         console.log('Remote user left');
         this.endCall();
     }
 
     endCall(): void {
+        // Discard the chat so nothing leaks to the next partner
+        if (this.chatChannel) {
+            this.chatChannel.close();
+            this.chatChannel = null;
+        }
+        this.chatMessages = [];
+        this.emit('chatCleared', true);
+
+        this.qualityMonitor.stop();
+        this.cancelRecovery();
+
         if (this.peerConnection) {
             this.peerConnection.close();
             this.peerConnection = null;
@@ -392,6 +691,9 @@ class WebRTCService {
         // Only clear remote stream, preserve local stream
         this.remoteStream = null;
         this.currentPeerId = '';
+        this.pendingCandidates = [];
+        this.makingOffer = false;
+        this.ignoreOffer = false;
         this.state.isConnected = false;
         this.state.isConnecting = false;
         this.state.hasRemoteStream = false;
@@ -541,6 +843,16 @@ class WebRTCService {
         }
     }
 
+    // Outgoing video quality profile (data saver / balanced / HD)
+    async setQualityProfile(profile: VideoQualityProfile): Promise<void> {
+        await this.bitrateController.setProfile(profile);
+        this.emit('qualityProfileChanged', profile);
+    }
+
+    getQualityProfile(): VideoQualityProfile {
+        return this.bitrateController.getProfile();
+    }
+
     // Switch camera (front/back)
     async switchCamera(): Promise<void> {
         if (this.localStream) {
@@ -552,44 +864,75 @@ class WebRTCService {
         }
     }
 
-    // Handle connection failure
-    private async handleConnectionFailure(): Promise<void> {
-        try {
-            console.log('Attempting to restart connection...');
-            
-            // Close current peer connection
-            if (this.peerConnection) {
-                this.peerConnection.close();
-                this.peerConnection = null;
+    // Start recovering a dropped connection. The impolite peer (the original
+    // offerer) sends ICE restart offers through signaling; the polite peer only
+    // waits for them. Both sides give up after the same number of attempts.
+    private beginRecovery(): void {
+        if (!this.currentPeerId || this.state.isReconnecting) {
+            return;
+        }
+
+        this.state.isReconnecting = true;
+        this.state.callFailed = false;
+        this.iceRestartAttempt = 0;
+        this.emit('reconnecting', true);
+        this.scheduleIceRestart();
+    }
+
+    private scheduleIceRestart(): void {
+        const delay = ICE_RESTART_BASE_DELAY * 2 ** this.iceRestartAttempt;
+
+        this.iceRestartTimer = setTimeout(async () => {
+            this.iceRestartTimer = null;
+            if (!this.state.isReconnecting || !this.peerConnection) {
+                return;
+            }
+
+            if (this.iceRestartAttempt >= MAX_ICE_RESTART_ATTEMPTS) {
+                this.failCall();
+                return;
+            }
+
+            this.iceRestartAttempt += 1;
+            if (!this.isPolite) {
+                console.log(`ICE restart attempt ${this.iceRestartAttempt}/${MAX_ICE_RESTART_ATTEMPTS}`);
+                await this.createOffer(this.currentPeerId, true);
             }
-            
-            // Wait a bit before restart
-            await new Promise(resolve => setTimeout(resolve, 1000));
-            
-            // Recreate peer connection
-            await this.createPeerConnection();
-            
-            // Notify about reconnection attempt
             this.emit('reconnecting', true);
-            
-        } catch (error) {
-            console.error('Failed to restart connection:', error);
-            this.emit('connectionError', error);
+
+            if (this.state.isReconnecting) {
+                this.scheduleIceRestart();
+            }
+        }, delay);
+    }
+
+    private finishRecovery(): void {
+        if (!this.state.isReconnecting) {
+            return;
         }
+
+        console.log(`Connection recovered after ${this.iceRestartAttempt} ICE restart attempt(s)`);
+        this.cancelRecovery();
     }
 
-    // Restart ICE connection
-    private async restartIce(): Promise<void> {
-        try {
-            if (this.peerConnection && this.currentPeerId) {
-                console.log('Restarting ICE...');
-                await this.peerConnection.restartIce();
-            }
-        } catch (error) {
-            console.error('Failed to restart ICE:', error);
-            // Fallback to full connection restart
-            this.handleConnectionFailure();
+    private cancelRecovery(): void {
+        if (this.iceRestartTimer) {
+            clearTimeout(this.iceRestartTimer);
+            this.iceRestartTimer = null;
         }
+        this.iceRestartAttempt = 0;
+        this.state.isReconnecting = false;
+    }
+
+    // Recovery ran out of attempts: tear the call down for good
+    private failCall(): void {
+        console.warn('Connection could not be recovered, ending call');
+        const error = new Error('Connection lost');
+        this.cancelRecovery();
+        this.state.error = error.message;
+        this.endCall();
+        this.state.callFailed = true;
+        this.emit('callFailed', error);
     }
 
     // Cleanup
@@ -608,35 +951,10 @@ class WebRTCService {
             hasRemoteStream: false,
         };
 
-        this.listeners.clear();
+        this.removeAllListeners();
         console.log('WebRTC Service disposed');
     }
 
-    // Event management
-    on(event: string, callback: Function): void {
-        if (!this.listeners.has(event)) {
-            this.listeners.set(event, []);
-        }
-        this.listeners.get(event)?.push(callback);
-    }
-
-    off(event: string, callback: Function): void {
-        const eventListeners = this.listeners.get(event);
-        if (eventListeners) {
-            const index = eventListeners.indexOf(callback);
-            if (index > -1) {
-                eventListeners.splice(index, 1);
-            }
-        }
-    }
-
-    private emit(event: string, data: any): void {
-        const eventListeners = this.listeners.get(event);
-        if (eventListeners) {
-            eventListeners.forEach(callback => callback(data));
-        }
-    }
-
     // Getters
     getState(): WebRTCState {
         return { ...this.state };
@@ -650,6 +968,18 @@ class WebRTCService {
         return this.remoteStream;
     }
 
+    getChatMessages(): ChatMessage[] {
+        return this.chatMessages.map(message => ({ ...message }));
+    }
+
+    getCallQualitySamples(): CallQualitySample[] {
+        return this.qualityMonitor.getSamples();
+    }
+
+    isChatReady(): boolean {
+        return this.chatChannel?.readyState === 'open';
+    }
+
     isConnected(): boolean {
         return this.state.isConnected;
     }
@@ -0,0 +1,67 @@
+import { StyleSheet } from 'react-native';
+import { responsiveSize, screenDimensions } from '../utils/responsiveUtils';
+
+export const chatOverlayStyles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: responsiveSize(10),
+    right: responsiveSize(10),
+    bottom: screenDimensions.height * 0.42 + responsiveSize(55),
+    zIndex: 15,
+  },
+  messageList: {
+    maxHeight: responsiveSize(180),
+    marginBottom: responsiveSize(8),
+  },
+  messageListContent: {
+    gap: responsiveSize(6),
+  },
+  bubble: {
+    maxWidth: '80%',
+    paddingHorizontal: responsiveSize(12),
+    paddingVertical: responsiveSize(8),
+    borderRadius: responsiveSize(16),
+  },
+  incomingBubble: {
+    alignSelf: 'flex-start',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  outgoingBubble: {
+    alignSelf: 'flex-end',
+    backgroundColor: 'rgba(102, 126, 234, 0.85)',
+  },
+  bubbleText: {
+    color: '#fff',
+    fontSize: responsiveSize(13),
+  },
+  statusText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: responsiveSize(9),
+    marginTop: responsiveSize(2),
+    alignSelf: 'flex-end',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: responsiveSize(8),
+  },
+  input: {
+    flex: 1,
+    color: '#fff',
+    fontSize: responsiveSize(13),
+    paddingHorizontal: responsiveSize(14),
+    paddingVertical: responsiveSize(8),
+    borderRadius: responsiveSize(20),
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  sendButton: {
+    width: responsiveSize(36),
+    height: responsiveSize(36),
+    borderRadius: responsiveSize(18),
+    backgroundColor: '#667eea',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
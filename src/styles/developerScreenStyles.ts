@@ -0,0 +1,84 @@
+import { StyleSheet } from 'react-native';
+import { responsiveSize } from '../utils/responsiveUtils';
+
+export const developerScreenStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1e1e2e',
+  },
+  content: {
+    padding: responsiveSize(20),
+  },
+  title: {
+    color: '#fff',
+    fontSize: responsiveSize(20),
+    fontWeight: '700',
+    marginBottom: responsiveSize(4),
+  },
+  subtitle: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: responsiveSize(13),
+    marginBottom: responsiveSize(20),
+  },
+  label: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: responsiveSize(13),
+    marginTop: responsiveSize(16),
+    marginBottom: responsiveSize(8),
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: responsiveSize(8),
+  },
+  option: {
+    paddingVertical: responsiveSize(8),
+    paddingHorizontal: responsiveSize(14),
+    borderRadius: responsiveSize(16),
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  optionSelected: {
+    backgroundColor: '#667eea',
+  },
+  optionText: {
+    color: '#fff',
+    fontSize: responsiveSize(14),
+  },
+  input: {
+    color: '#fff',
+    fontSize: responsiveSize(14),
+    paddingVertical: responsiveSize(10),
+    paddingHorizontal: responsiveSize(12),
+    borderRadius: responsiveSize(10),
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  buildInfo: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: responsiveSize(12),
+    marginTop: responsiveSize(20),
+  },
+  primaryButton: {
+    marginTop: responsiveSize(24),
+    paddingVertical: responsiveSize(14),
+    borderRadius: responsiveSize(12),
+    backgroundColor: '#667eea',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: responsiveSize(15),
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    marginTop: responsiveSize(12),
+    paddingVertical: responsiveSize(14),
+    borderRadius: responsiveSize(12),
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#FF4757',
+    fontSize: responsiveSize(15),
+    fontWeight: '600',
+  },
+});
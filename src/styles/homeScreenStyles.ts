@@ -60,6 +60,31 @@ export const homeScreenStyles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 5,
   },
+  matchReasonContainer: {
+    position: 'absolute',
+    top: responsiveSize(16),
+    left: responsiveSize(10),
+    right: responsiveSize(10),
+    flexDirection: 'row',
+    zIndex: 5,
+  },
+  signalBars: {
+    position: 'absolute',
+    top: responsiveSize(28),
+    right: responsiveSize(68),
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: responsiveSize(2),
+    paddingHorizontal: responsiveSize(6),
+    paddingVertical: responsiveSize(4),
+    borderRadius: responsiveSize(6),
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    zIndex: 20,
+  },
+  signalBar: {
+    width: responsiveSize(4),
+    borderRadius: responsiveSize(1),
+  },
   interestText: {
     color: '#fff',
     fontSize: responsiveSize(12),
@@ -175,4 +200,32 @@ export const homeScreenStyles = StyleSheet.create({
     marginTop: responsiveSize(12),
     textAlign: 'center',
   },
+  maintenanceBanner: {
+    position: 'absolute',
+    top: responsiveSize(56),
+    left: responsiveSize(16),
+    right: responsiveSize(16),
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: responsiveSize(8),
+    paddingHorizontal: responsiveSize(12),
+    paddingVertical: responsiveSize(10),
+    borderRadius: responsiveSize(12),
+    backgroundColor: 'rgba(255, 152, 0, 0.9)',
+    zIndex: 25,
+  },
+  maintenanceBannerText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: responsiveSize(13),
+    fontWeight: '600',
+  },
+  developerHotspot: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    width: responsiveSize(60),
+    height: responsiveSize(60),
+    zIndex: 30,
+  },
 });
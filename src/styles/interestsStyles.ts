@@ -0,0 +1,37 @@
+import { StyleSheet } from 'react-native';
+import { responsiveSize } from '../utils/responsiveUtils';
+
+export const interestsStyles = StyleSheet.create({
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: responsiveSize(8),
+  },
+  chip: {
+    paddingHorizontal: responsiveSize(14),
+    paddingVertical: responsiveSize(8),
+    borderRadius: responsiveSize(16),
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  chipSelected: {
+    backgroundColor: '#FF4757',
+    borderColor: '#FF4757',
+  },
+  chipText: {
+    color: '#fff',
+    fontSize: responsiveSize(14),
+  },
+  saveButton: {
+    marginTop: responsiveSize(20),
+    paddingVertical: responsiveSize(14),
+    borderRadius: responsiveSize(12),
+    backgroundColor: '#FF4757',
+    alignItems: 'center',
+  },
+  saveText: {
+    color: '#fff',
+    fontSize: responsiveSize(15),
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,62 @@
+import { StyleSheet } from 'react-native';
+import { responsiveSize } from '../utils/responsiveUtils';
+
+export const reportUserStyles = StyleSheet.create({
+  reportButton: {
+    position: 'absolute',
+    top: responsiveSize(16),
+    right: responsiveSize(16),
+    width: responsiveSize(40),
+    height: responsiveSize(40),
+    borderRadius: responsiveSize(20),
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 20,
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#1e1e2e',
+    borderTopLeftRadius: responsiveSize(20),
+    borderTopRightRadius: responsiveSize(20),
+    paddingHorizontal: responsiveSize(20),
+    paddingTop: responsiveSize(20),
+    paddingBottom: responsiveSize(32),
+  },
+  title: {
+    color: '#fff',
+    fontSize: responsiveSize(18),
+    fontWeight: '700',
+    marginBottom: responsiveSize(4),
+  },
+  subtitle: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: responsiveSize(13),
+    marginBottom: responsiveSize(16),
+  },
+  reasonButton: {
+    paddingVertical: responsiveSize(14),
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  reasonText: {
+    color: '#fff',
+    fontSize: responsiveSize(15),
+  },
+  cancelButton: {
+    marginTop: responsiveSize(16),
+    paddingVertical: responsiveSize(14),
+    borderRadius: responsiveSize(12),
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    alignItems: 'center',
+  },
+  cancelText: {
+    color: '#FF4757',
+    fontSize: responsiveSize(15),
+    fontWeight: '600',
+  },
+});
@@ -48,6 +48,35 @@ export const selfVideoStyles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  qualityProfileButton: {
+    position: 'absolute',
+    top: 12,
+    right: 15,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.35)',
+  },
+  interestsButton: {
+    position: 'absolute',
+    top: 44,
+    right: 15,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.35)',
+  },
+  qualityProfileText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
   controlsOverlay: {
     position: 'absolute',
     bottom: 15,
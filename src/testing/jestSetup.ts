@@ -0,0 +1,8 @@
+// Native modules have no implementation under Jest; use the in-memory mocks
+// their packages ship
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// The services log every message; keep test output to failures
+jest.spyOn(console, 'log').mockImplementation(() => {});
@@ -0,0 +1,224 @@
+import { createEnvelope, parseClientEnvelope } from '../../shared/signalingProtocol';
+import { SignalingTransport, TransportFactory, TransportHandlers } from '../services/transports/types';
+import { ClientEnvelope, ServerEnvelope, ServerMessageMap, ServerMessageType } from '../types/webrtc';
+
+// Frames are delivered asynchronously, like on a real network
+const deliver = (callback: () => void) => setTimeout(callback, 0);
+
+// Copy a frame as if it had gone over the wire
+const roundTrip = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// In-memory transport connected to a FakeSignalingServer in the same process
+export class LoopbackTransport implements SignalingTransport {
+  private handlers: TransportHandlers | null = null;
+  private connectionId: string | null = null;
+
+  constructor(private readonly server: FakeSignalingServer) {}
+
+  open(handlers: TransportHandlers): void {
+    this.handlers = handlers;
+    deliver(() => {
+      if (!this.handlers) return;
+      this.connectionId = this.server.attach(this);
+      this.handlers.onOpen();
+    });
+  }
+
+  send(envelope: ClientEnvelope): void {
+    const id = this.connectionId;
+    if (!id) return;
+
+    const frame = roundTrip(envelope);
+    deliver(() => this.server.receive(id, frame));
+  }
+
+  close(): void {
+    const id = this.connectionId;
+    this.handlers = null;
+    this.connectionId = null;
+    if (id) {
+      this.server.detach(id);
+    }
+  }
+
+  isOpen(): boolean {
+    return !!this.handlers && !!this.connectionId;
+  }
+
+  // Called by the fake server
+  receive(envelope: ServerEnvelope): void {
+    const frame = roundTrip(envelope);
+    deliver(() => this.handlers?.onMessage(frame));
+  }
+
+  // Called by the fake server when it drops this connection
+  closedByServer(code: number, reason: string): void {
+    const handlers = this.handlers;
+    this.handlers = null;
+    this.connectionId = null;
+    deliver(() => handlers?.onClose(code, reason));
+  }
+}
+
+// Minimal in-process signaling server speaking the shared protocol: FIFO
+// matchmaking, room relay, heartbeats and acknowledgements. Session tokens are
+// not verified and sessions cannot be resumed. Test-only: it exercises
+// SignalingService and the hooks end to end without a network, and is kept
+// out of the app's barrels so it never ships.
+export class FakeSignalingServer {
+  private connections: Map<string, LoopbackTransport> = new Map();
+  private users: Map<string, string> = new Map(); // connectionId -> userId
+  private waiting: string[] = [];
+  private rooms: Map<string, [string, string]> = new Map();
+  private seq = 0;
+
+  createTransport: TransportFactory = () => new LoopbackTransport(this);
+
+  attach(transport: LoopbackTransport): string {
+    const id = `loopback-${++this.seq}`;
+    this.connections.set(id, transport);
+    this.send(id, 'connect', { sid: id });
+    return id;
+  }
+
+  detach(id: string): void {
+    if (!this.connections.delete(id)) return;
+
+    this.users.delete(id);
+    this.waiting = this.waiting.filter((waitingId) => waitingId !== id);
+    this.endRoomOf(id);
+  }
+
+  // Simulate the network dropping a connection
+  dropConnection(id: string, code = 1006, reason = 'Connection lost'): void {
+    const transport = this.connections.get(id);
+    this.detach(id);
+    transport?.closedByServer(code, reason);
+  }
+
+  getConnectionIds(): string[] {
+    return Array.from(this.connections.keys());
+  }
+
+  receive(id: string, raw: unknown): void {
+    if (!this.connections.has(id)) return;
+
+    const result = parseClientEnvelope(raw);
+    if (!result.ok) {
+      this.send(id, 'protocol-error', { code: result.code, message: result.message });
+      if (result.id) {
+        this.send(id, 'ack', { id: result.id, ok: false, code: result.code, message: result.message });
+      }
+      return;
+    }
+
+    this.handle(id, result.envelope);
+    if (result.envelope.id) {
+      this.send(id, 'ack', { id: result.envelope.id, ok: true });
+    }
+  }
+
+  private handle(id: string, envelope: ClientEnvelope): void {
+    switch (envelope.type) {
+      case 'register-user':
+        this.users.set(id, envelope.data.userSession.userId || id);
+        this.send(id, 'registration-success', {
+          socketId: id,
+          userId: this.users.get(id)!,
+          message: 'User registered successfully',
+          resumeToken: `resume-${id}`,
+        });
+        this.send(id, 'ice-servers', { iceServers: [], expiresAt: Date.now() + 60 * 60 * 1000 });
+        break;
+
+      case 'resume-session':
+        this.send(id, 'resume-failed', { message: 'Session expired' });
+        break;
+
+      case 'find-match':
+        this.findMatch(id);
+        break;
+
+      case 'leave-room':
+      case 'block-user':
+        this.endRoomOf(id);
+        break;
+
+      case 'report-user':
+        this.endRoomOf(id);
+        this.send(id, 'report-received', { reportId: `report-${++this.seq}` });
+        break;
+
+      case 'offer':
+      case 'answer':
+      case 'ice-candidate': {
+        const peerId = this.peerOf(id);
+        if (peerId) {
+          this.send(peerId, envelope.type, { ...envelope.data, from: id } as ServerMessageMap[typeof envelope.type]);
+        }
+        break;
+      }
+
+      case 'ping':
+        this.send(id, 'pong', { sentAt: envelope.data.sentAt });
+        break;
+
+      case 'get-ice-servers':
+        this.send(id, 'ice-servers', { iceServers: [], expiresAt: Date.now() + 60 * 60 * 1000 });
+        break;
+
+      case 'get-stats':
+        this.send(id, 'server-stats', {
+          activeUsers: this.users.size,
+          waitingUsers: this.waiting.length,
+          activeRooms: this.rooms.size,
+          timestamp: new Date().toISOString(),
+        });
+        break;
+    }
+  }
+
+  private findMatch(id: string): void {
+    if (!this.users.has(id)) {
+      this.send(id, 'room-error', { code: 'not-registered', message: 'User not registered' });
+      return;
+    }
+
+    const partnerId = this.waiting.find((waitingId) => waitingId !== id);
+    if (!partnerId) {
+      if (!this.waiting.includes(id)) this.waiting.push(id);
+      this.send(id, 'search-started', { message: 'Searching for match...', isSearching: true });
+      return;
+    }
+
+    this.waiting = this.waiting.filter((waitingId) => waitingId !== id && waitingId !== partnerId);
+    const roomId = `room-${++this.seq}`;
+    this.rooms.set(roomId, [partnerId, id]);
+
+    const reason = { score: 0, sharedInterests: [], sameLanguage: false, sameRegion: false };
+    this.send(partnerId, 'match-found', { roomId, peerId: id, partner: { userId: this.users.get(id)! }, reason });
+    this.send(id, 'match-found', { roomId, peerId: partnerId, partner: { userId: this.users.get(partnerId)! }, reason });
+  }
+
+  private peerOf(id: string): string | null {
+    for (const [first, second] of this.rooms.values()) {
+      if (first === id) return second;
+      if (second === id) return first;
+    }
+    return null;
+  }
+
+  private endRoomOf(id: string): void {
+    for (const [roomId, [first, second]] of this.rooms) {
+      if (first === id || second === id) {
+        this.rooms.delete(roomId);
+        this.send(first === id ? second : first, 'user-left', { from: id });
+        return;
+      }
+    }
+  }
+
+  private send<K extends ServerMessageType>(id: string, type: K, data: ServerMessageMap[K]): void {
+    this.connections.get(id)?.receive(createEnvelope(type, data) as ServerEnvelope);
+  }
+}
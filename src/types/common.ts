@@ -13,6 +13,13 @@ export interface ApiResponse<T> {
   success: boolean;
 }
 
+// Signed session token presented to the signaling server
+export interface AuthSession {
+  token: string;
+  userId: string;
+  expiresAt: number;
+}
+
 export interface LoadingState {
   isLoading: boolean;
   error?: string | null;
@@ -3,6 +3,7 @@ import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 // Root Stack Navigator
 export type RootStackParamList = {
   Home: undefined;
+  Developer: undefined;
 };
 
 // Screen Props Types
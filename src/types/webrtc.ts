@@ -1,15 +1,41 @@
 import { MediaStream } from 'react-native-webrtc';
+import type { ClientEnvelope, ServerEnvelope, ServerMessageMap } from '../../shared/signalingProtocol';
+
+// Signaling protocol types are shared with the signaling server
+export type {
+  AckPayload,
+  AnswerPayload,
+  ClientEnvelope,
+  ClientMessageMap,
+  ClientMessageType,
+  IceCandidatePayload,
+  IceServersPayload,
+  MaintenanceNoticePayload,
+  MatchFoundPayload,
+  MatchReason,
+  OfferPayload,
+  ProtocolErrorPayload,
+  RateLimitedPayload,
+  RegistrationSuccessPayload,
+  RelayedPayload,
+  ReportReason,
+  RoomDissolvedPayload,
+  RoomErrorPayload,
+  RoomPhasePayload,
+  ServerDrainingPayload,
+  ServerEnvelope,
+  ServerMessageMap,
+  ServerMessageType,
+  SessionResumedPayload,
+  UserPreferences,
+  UserSession,
+} from '../../shared/signalingProtocol';
 
 export interface WebRTCConfig {
   iceServers: RTCIceServer[];
 }
 
-export interface SignalingMessage {
-  type: 'offer' | 'answer' | 'ice-candidate' | 'user-joined' | 'user-left' | 'match-found' | 'next-user';
-  data?: any;
-  from?: string;
-  to?: string;
-}
+export type SignalingMessage = ClientEnvelope | ServerEnvelope;
 
 export interface PeerConnection {
   id: string;
@@ -30,6 +56,10 @@ export interface CallSession {
 export interface WebRTCState {
   isConnecting: boolean;
   isConnected: boolean;
+  // Set while ICE restarts are trying to recover a dropped call
+  isReconnecting?: boolean;
+  // Set once recovery gave up and the call was ended
+  callFailed?: boolean;
   hasLocalStream: boolean;
   hasRemoteStream: boolean;
   localStream?: MediaStream;
@@ -42,6 +72,10 @@ export interface SignalingState {
   isConnected: boolean;
   isSearching: boolean;
   currentRoomId?: string;
+  // Round-trip time of the last heartbeat in ms
+  latencyMs?: number;
+  // Set while the server refuses find-match (epoch ms)
+  rateLimitedUntil?: number;
   error?: string;
 }
 
@@ -50,14 +84,97 @@ export interface MediaConstraints {
   audio: boolean | MediaTrackConstraints;
 }
 
-export interface UserSession {
-  userId: string;
-  roomId?: string;
-  isReady: boolean;
-  preferences?: {
-    videoEnabled: boolean;
-    audioEnabled: boolean;
-    location?: string;
-    interests?: string[];
+export type ChatMessageStatus = 'sent' | 'delivered';
+
+export interface ChatMessage {
+  id: string;
+  text: string;
+  direction: 'incoming' | 'outgoing';
+  sentAt: number;
+  status: ChatMessageStatus;
+}
+
+export type CallQualityLevel = 'good' | 'fair' | 'poor';
+
+// One getStats() poll reduced to the numbers the UI and adaptation care about
+export interface CallQualitySample {
+  timestamp: number;
+  inboundBitrate: number; // bits per second, audio + video
+  outboundBitrate: number; // bits per second, audio + video
+  packetLossRate: number; // inbound, 0..1 over the last interval
+  outboundPacketLossRate?: number; // 0..1, as reported by the remote receiver
+  jitter: number; // milliseconds
+  roundTripTime?: number; // milliseconds
+  availableOutgoingBitrate?: number; // bits per second
+  candidatePair?: {
+    localCandidateType?: string;
+    remoteCandidateType?: string;
+    protocol?: string;
+    relayed: boolean;
   };
+  quality: CallQualityLevel;
+}
+
+export type VideoQualityProfile = 'data-saver' | 'balanced' | 'hd';
+
+// Outgoing video encoding limits applied through RTCRtpSender parameters
+export interface VideoEncodingStep {
+  maxBitrate: number; // bits per second
+  scaleResolutionDownBy: number;
+  maxFramerate: number;
+}
+
+// Source of the session token SignalingService presents when registering
+export interface AuthTokenProvider {
+  getToken(): Promise<string>;
+  // The server rejected the token; the next getToken() must return a new one
+  invalidate(): Promise<void>;
+}
+
+// Events emitted by SignalingService
+export interface SignalingServiceEvents {
+  'connected': { isConnected: true };
+  'disconnected': { isConnected: false };
+  'registration-success': ServerMessageMap['registration-success'];
+  'session-resumed': ServerMessageMap['session-resumed'];
+  'match-found': ServerMessageMap['match-found'];
+  'search-started': { isSearching: boolean; message?: string };
+  'no-match': Record<string, never>;
+  'room-error': ServerMessageMap['room-error'];
+  'report-received': ServerMessageMap['report-received'];
+  'offer': ServerMessageMap['offer'];
+  'answer': ServerMessageMap['answer'];
+  'ice-candidate': ServerMessageMap['ice-candidate'];
+  // `from` is missing when the room was lost while we were disconnected
+  'user-left': Partial<ServerMessageMap['user-left']>;
+  'left-room': Record<string, never>;
+  'ice-servers': ServerMessageMap['ice-servers'];
+  'protocol-error': ServerMessageMap['protocol-error'];
+  'rate-limited': ServerMessageMap['rate-limited'];
+  'maintenance-notice': ServerMessageMap['maintenance-notice'];
+  'server-draining': ServerMessageMap['server-draining'];
+  'room-dissolved': ServerMessageMap['room-dissolved'];
+  'latency': number;
+}
+
+// Events emitted by WebRTCService
+export interface WebRTCServiceEvents {
+  localStream: MediaStream;
+  remoteStream: MediaStream;
+  connecting: true;
+  connected: true;
+  disconnected: false;
+  reconnecting: true;
+  callFailed: Error;
+  callEnded: true;
+  audioToggled: boolean;
+  videoToggled: boolean;
+  chatReady: boolean;
+  chatMessage: ChatMessage;
+  chatMessageUpdated: ChatMessage;
+  chatCleared: true;
+  callQuality: CallQualitySample;
+  qualityChanged: CallQualityLevel;
+  qualityProfileChanged: VideoQualityProfile;
+  videoEncodingChanged: { step: VideoEncodingStep; profile: VideoQualityProfile };
 }
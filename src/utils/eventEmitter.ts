@@ -0,0 +1,73 @@
+// Typed event emitter shared by the services. `Events` maps each event name to
+// its payload type, so listeners and emitters are checked against each other.
+
+export type Listener<T> = (payload: T) => void;
+export type WildcardListener<Events> = <K extends keyof Events>(event: K, payload: Events[K]) => void;
+export type Unsubscribe = () => void;
+
+export class TypedEventEmitter<Events extends object> {
+  private listeners: Map<keyof Events, Listener<any>[]> = new Map();
+  private wildcardListeners: WildcardListener<Events>[] = [];
+
+  // Subscribe to an event. Returns a function that removes the listener.
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): Unsubscribe {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, []);
+    }
+    this.listeners.get(event)?.push(listener);
+    return () => this.off(event, listener);
+  }
+
+  // Subscribe to the next occurrence of an event only
+  once<K extends keyof Events>(event: K, listener: Listener<Events[K]>): Unsubscribe {
+    const unsubscribe = this.on(event, (payload) => {
+      unsubscribe();
+      listener(payload);
+    });
+    return unsubscribe;
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      const index = eventListeners.indexOf(listener);
+      if (index > -1) {
+        eventListeners.splice(index, 1);
+      }
+    }
+  }
+
+  // Subscribe to every event, e.g. for logging
+  onAny(listener: WildcardListener<Events>): Unsubscribe {
+    this.wildcardListeners.push(listener);
+    return () => {
+      this.wildcardListeners = this.wildcardListeners.filter((l) => l !== listener);
+    };
+  }
+
+  removeAllListeners(): void {
+    this.listeners.clear();
+    this.wildcardListeners = [];
+  }
+
+  // Listeners run on a snapshot, so (un)subscribing while emitting is safe,
+  // and a listener that throws is logged without affecting the others.
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const eventListeners = [...(this.listeners.get(event) ?? [])];
+    for (const listener of eventListeners) {
+      this.invoke(event, () => listener(payload));
+    }
+
+    for (const listener of [...this.wildcardListeners]) {
+      this.invoke(event, () => listener(event, payload));
+    }
+  }
+
+  private invoke(event: keyof Events, call: () => void): void {
+    try {
+      call();
+    } catch (error) {
+      console.error(`Listener for "${String(event)}" threw:`, error);
+    }
+  }
+}
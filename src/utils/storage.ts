@@ -0,0 +1,30 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// JSON helpers around AsyncStorage. Read failures resolve to null so callers
+// can fall back to defaults.
+
+export const getStoredValue = async <T>(key: string): Promise<T | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    return raw === null ? null : (JSON.parse(raw) as T);
+  } catch (error) {
+    console.error(`Failed to read ${key} from storage:`, error);
+    return null;
+  }
+};
+
+export const setStoredValue = async <T>(key: string, value: T): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to write ${key} to storage:`, error);
+  }
+};
+
+export const removeStoredValue = async (key: string): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(key);
+  } catch (error) {
+    console.error(`Failed to remove ${key} from storage:`, error);
+  }
+};